@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+import { COMPLIANCE } from "../fixtures/compliance"
+import { checkSource } from "."
+import { lineHeightFor } from "./tailwind"
+
+const check = (text: string, rule: string) =>
+  checkSource("src/Page.tsx", text, COMPLIANCE)
+    .filter((violation) => violation.ruleId === rule)
+    .map(({ message, source, suggestion }) => ({ message, source, suggestion }))
+
+describe("accessibility/touch-target", () => {
+  const touch = (text: string) => check(text, "accessibility/touch-target")
+
+  it("measures heights, sizes and min sizes from the classes", () => {
+    expect(touch(`<button className="h-8 px-4">Save</button>`)).toEqual([
+      {
+        message: "h-8 leaves <button> 32px tall; touch targets must be at least 44×44px",
+        source: "h-8",
+        suggestion: "add pointer-coarse:min-h-11",
+      },
+    ])
+    expect(touch(`<button className="h-8 pointer-coarse:min-h-11">Save</button>`)).toEqual([])
+    expect(touch(`<button className="size-8 pointer-coarse:size-11" />`)).toEqual([])
+  })
+
+  it("resolves the size prop of shadcn's Button, as in the spec's own example", () => {
+    expect(touch(`<Button size="sm">Save</Button>`)).toEqual([
+      expect.objectContaining({ source: 'size="sm" (h-8)', message: expect.stringContaining("<Button> 32px tall") }),
+    ])
+    expect(touch(`<Button size="icon" aria-label="Close"><X /></Button>`).map((site) => site.suggestion)).toEqual([
+      "add pointer-coarse:min-h-11",
+      "add pointer-coarse:min-w-11",
+    ])
+  })
+
+  it("applies the default size when there is no size prop", () => {
+    expect(touch(`<Button>Save</Button>`)).toEqual([
+      expect.objectContaining({ source: "the default size (h-9)", message: expect.stringContaining("<Button> 36px tall") }),
+    ])
+    expect(touch(`<Button className="pointer-coarse:min-h-11">Save</Button>`)).toEqual([])
+    expect(touch(`<Button {...props}>Save</Button>`)).toEqual([])
+  })
+
+  it("lets className override the size prop, and leaves other components alone", () => {
+    expect(touch(`<Button size="sm" className="pointer-coarse:min-h-11">Save</Button>`)).toEqual([])
+    expect(touch(`<Button size="lg" className="h-12">Save</Button>`)).toEqual([])
+    expect(touch(`<Button size={size}>Save</Button>`)).toEqual([])
+    expect(touch(`<DSButton size={32}>Save</DSButton>`)).toEqual([])
+  })
+
+  it("estimates padded heights with the line heights the generated theme sets", () => {
+    // 12px text gets a 16px line in the theme, not Tailwind's default
+    expect(lineHeightFor(12)).toBe(16)
+    expect(touch(`<a href="/" className="py-2 text-xs">Docs</a>`)[0].message).toContain("about 32px tall")
+    expect(touch(`<a href="/" className="py-2 text-3xl">Docs</a>`)).toEqual([])
+    // text-6xl is not in the theme, so body text is assumed
+    expect(touch(`<a href="/" className="py-2 text-6xl">Docs</a>`)[0].message).toContain(`about ${16 + lineHeightFor(16)}px tall`)
+  })
+
+  it("lets checkboxes and radios take their size from their label", () => {
+    expect(touch(`<input type="checkbox" className="h-4 w-4" aria-label="Agree" />`)).toEqual([])
+  })
+})
+
+describe("accessibility/keyboard", () => {
+  const keyboard = (text: string) => check(text, "accessibility/keyboard").map((site) => site.message)
+
+  it("asks clickable non-interactive elements for what they miss", () => {
+    expect(keyboard(`<div onClick={open}>Open</div>`)).toEqual(["<div onClick> is not keyboard accessible; it has no role, tabIndex, onKeyDown"])
+    expect(keyboard(`<div onClick={open} role="button" tabIndex={0} onKeyDown={key}>Open</div>`)).toEqual([])
+    expect(keyboard(`<div onClick={open} {...props}>Open</div>`)).toEqual([])
+    expect(keyboard(`<button onClick={open}>Open</button>`)).toEqual([])
+  })
+})
+
+describe("accessibility/icon-label", () => {
+  const icons = (body: string) => check(`import { X } from "lucide-react"\nconst a = ${body}`, "accessibility/icon-label")
+
+  it("requires a name on buttons that only hold icons", () => {
+    expect(icons(`<Button><X /></Button>`)).toEqual([expect.objectContaining({ source: "<Button>" })])
+    expect(icons(`<Button aria-label="Close"><X /></Button>`)).toEqual([])
+    expect(icons(`<Button><X /> Close</Button>`)).toEqual([])
+  })
+
+  it("does not count whitespace as a name", () => {
+    expect(icons(`<Button><X /> </Button>`)).toEqual([expect.objectContaining({ source: "<Button>" })])
+    expect(icons(`<Button><X />{" "}</Button>`)).toEqual([expect.objectContaining({ source: "<Button>" })])
+    expect(icons(`<Button><X />{" Close"}</Button>`)).toEqual([])
+  })
+})
+
+describe("semantic/form-label", () => {
+  const labels = (text: string) => check(text, "semantic/form-label").map((site) => site.source)
+
+  it("accepts htmlFor, wrapping labels, FormItem labels and aria-label", () => {
+    expect(labels(`<Input />`)).toEqual(["<Input>"])
+    expect(labels(`<><Label htmlFor="email">Email</Label><Input id="email" /></>`)).toEqual([])
+    expect(labels(`<label>Email <input /></label>`)).toEqual([])
+    expect(labels(`<FormItem><FormLabel>Email</FormLabel><FormControl><Input /></FormControl></FormItem>`)).toEqual([])
+    expect(labels(`<input type="hidden" />`)).toEqual([])
+  })
+})
+
+describe("semantic/heading-order", () => {
+  it("flags skipped levels and suggests the next one", () => {
+    expect(check(`<><h1>A</h1><h3>B</h3><h2>C</h2></>`, "semantic/heading-order")).toEqual([
+      { message: "<h3> follows <h1>; heading levels must not be skipped", source: "<h3>", suggestion: "<h2>" },
+    ])
+  })
+})
@@ -0,0 +1,381 @@
+// JSX accessibility and semantic-structure checks: touch target sizes,
+// keyboard access for clickable elements, names for icon-only buttons and
+// inputs, and heading order. Only what a file states literally is judged,
+// plus the sizes shadcn/ui's components give their `size` values; spread props
+// or computed values may supply what is missing, so elements that carry them
+// are given the benefit of the doubt.
+
+import * as ts from "typescript"
+import type { ComplianceConfig } from "../config"
+import { fontSizeScale } from "../tokens/compile"
+import { TOUCH_TARGET_PX } from "../tokens/components"
+import { isClassCall } from "./extract"
+import { finding, type Finding } from "./rules"
+import { lineHeightFor, pxToSpacing, spacingToPx, splitClassList, splitUtility, type ClassToken } from "./tailwind"
+
+export interface AccessibilitySite {
+  finding: Finding
+  pos: number
+  source: string
+}
+
+/**
+ * Classes the `size` values of shadcn/ui components add ahead of `className`,
+ * as `npx shadcn add` ships them; `default` applies when no `size` is given.
+ */
+const SHADCN_SIZES: Record<string, Record<string, string>> = {
+  Button: {
+    default: "h-9 px-4 py-2",
+    sm: "h-8 px-3",
+    lg: "h-10 px-6",
+    icon: "size-9",
+    "icon-sm": "size-8",
+    "icon-lg": "size-10",
+  },
+  Toggle: { default: "h-9 min-w-9 px-2", sm: "h-8 min-w-8 px-1.5", lg: "h-10 min-w-10 px-2.5" },
+}
+
+/** Elements held to the touch target size */
+const TOUCH_TARGETS = ["button", "a", "input", "select", "Button", "Input", "SelectTrigger", "Toggle", "Link", "DSButton", "DSInput"]
+const BUTTONS = ["button", "Button", "DSButton"]
+const INPUTS = ["input", "textarea", "Input", "Textarea", "DSInput"]
+/** Elements that label whatever they wrap */
+const LABELS = ["label", "Label", "FormLabel"]
+/** Native elements that are focusable and keyboard operable already */
+const NATIVE_INTERACTIVE = ["a", "button", "input", "select", "textarea", "summary", "details", "label", "option"]
+/** Input types that are buttons or invisible, so need no label */
+const UNLABELED_INPUT_TYPES = ["hidden", "submit", "button", "reset", "image"]
+/** Checkboxes and radios take their target size from their label */
+const LABEL_SIZED_INPUT_TYPES = ["checkbox", "radio", "hidden"]
+const KEY_HANDLERS = ["onKeyDown", "onKeyUp", "onKeyPress"]
+const ICON_MODULES = /^(lucide-react|@radix-ui\/react-icons|react-icons|@heroicons\/react|@tabler\/icons-react|@phosphor-icons\/react)(\/|$)/
+/** Variants under which a size applies on touch screens */
+const TOUCH_VARIANTS = ["pointer-coarse", "any-pointer-coarse"]
+/** Line height assumed when a padded element sets no text size (16px text) */
+const DEFAULT_LINE_HEIGHT = lineHeightFor(16)
+
+type JsxTag = ts.JsxOpeningElement | ts.JsxSelfClosingElement
+
+interface PositionedClass {
+  token: ClassToken
+  pos: number
+  /** What the class came from when the file does not spell it out, e.g. `size="sm"` */
+  origin?: string
+}
+
+function tagName(node: JsxTag): string {
+  return node.tagName.getText()
+}
+
+function isIntrinsic(tag: string): boolean {
+  return /^[a-z][\w-]*$/.test(tag)
+}
+
+function attribute(node: JsxTag, name: string): ts.JsxAttribute | undefined {
+  return node.attributes.properties.find(
+    (property): property is ts.JsxAttribute => ts.isJsxAttribute(property) && property.name.getText() === name,
+  )
+}
+
+function hasSpread(node: JsxTag): boolean {
+  return node.attributes.properties.some(ts.isJsxSpreadAttribute)
+}
+
+/**
+ * Literal value of an attribute, or the source text of its expression so two
+ * references to the same variable still compare equal.
+ */
+function attributeValue(node: JsxTag, name: string): string | undefined {
+  const init = attribute(node, name)?.initializer
+  if (!init) return undefined
+  if (ts.isStringLiteral(init)) return init.text
+  if (ts.isJsxExpression(init) && init.expression) {
+    const expression = init.expression
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return expression.text
+    return expression.getText()
+  }
+  return undefined
+}
+
+/**
+ * Class tokens that always apply: string literals in `className` and the
+ * unconditional string arguments of `cn(...)`.
+ */
+function staticClasses(node: JsxTag): PositionedClass[] {
+  const init = attribute(node, "className")?.initializer
+  const literals: (ts.StringLiteral | ts.NoSubstitutionTemplateLiteral)[] = []
+  const collect = (expression: ts.Expression) => {
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) literals.push(expression)
+    else if (isClassCall(expression)) expression.arguments.forEach(collect)
+  }
+  if (init && ts.isStringLiteral(init)) collect(init)
+  else if (init && ts.isJsxExpression(init) && init.expression) collect(init.expression)
+  return literals.flatMap((literal) =>
+    splitClassList(literal.text).map((token) => ({ token, pos: literal.getStart() + 1 + token.offset })),
+  )
+}
+
+/**
+ * Classes a literal `size` prop of a shadcn/ui component stands for, or its
+ * default size when there is no `size` prop and no spread that could set one.
+ */
+function sizeClasses(node: JsxTag, tag: string): PositionedClass[] {
+  const sizes = SHADCN_SIZES[tag]
+  if (!sizes) return []
+  const prop = attribute(node, "size")
+  if (!prop) {
+    if (hasSpread(node)) return []
+    return splitClassList(sizes.default).map((token) => ({ token, pos: node.tagName.getStart(), origin: `the default size (${token.raw})` }))
+  }
+  const init = prop.initializer
+  const size = init && ts.isStringLiteral(init) ? init.text : undefined
+  const classes = size === undefined ? undefined : sizes[size]
+  if (!init || !classes) return []
+  return splitClassList(classes).map((token) => ({ token, pos: init.getStart(), origin: `size="${size}" (${token.raw})` }))
+}
+
+interface Dimension {
+  px: number
+  /** Class that decides the size */
+  source: PositionedClass
+  estimated: boolean
+}
+
+/**
+ * Size of an element on touch screens from its height (or width), padding and
+ * min-size classes. Base classes apply first and `pointer-coarse:` ones
+ * override them; other variants are ignored. A height set by vertical padding
+ * alone is estimated from the line height the theme gives its text size;
+ * widths also depend on the content, so padding is not counted for them.
+ */
+function touchSize(classes: PositionedClass[], axis: "h" | "w", lineHeights: Record<string, number>): Dimension | undefined {
+  const applicable = [
+    ...classes.filter(({ token }) => !token.variants.length),
+    ...classes.filter(({ token }) => token.variants.length === 1 && TOUCH_VARIANTS.includes(token.variants[0])),
+  ]
+  let size: Dimension | undefined
+  let minimum: Dimension | undefined
+  let top: (PositionedClass & { px: number }) | undefined
+  let bottom: (PositionedClass & { px: number }) | undefined
+  let lineHeight = DEFAULT_LINE_HEIGHT
+  const prefixes = axis === "h" ? ["h", "min-h", "size", "p", "py", "pt", "pb"] : ["w", "min-w", "size"]
+  for (const entry of applicable) {
+    const { utility } = entry.token
+    if (utility.startsWith("text-")) lineHeight = lineHeights[utility.slice(5)] ?? lineHeight
+    const split = splitUtility(utility, prefixes)
+    if (!split) continue
+    const [prefix, value] = split
+    const px = spacingToPx(value)
+    if (prefix === axis || prefix === "size") {
+      // `h-full`, `w-auto` and the like are sized by the layout
+      size = px === undefined ? undefined : { px, source: entry, estimated: false }
+    } else if (px === undefined) {
+      continue
+    } else if (prefix === `min-${axis}`) {
+      if (!minimum || px > minimum.px) minimum = { px, source: entry, estimated: false }
+    } else {
+      if (prefix !== "pb") top = { ...entry, px }
+      if (prefix !== "pt") bottom = { ...entry, px }
+    }
+  }
+  const padding = top ?? bottom
+  if (!size && padding) {
+    size = { px: (top?.px ?? 0) + (bottom?.px ?? 0) + lineHeight, source: padding, estimated: true }
+  }
+  if (minimum && (!size || minimum.px >= size.px)) return minimum
+  return size
+}
+
+function checkTouchTarget(node: JsxTag, tag: string, lineHeights: Record<string, number>): AccessibilitySite[] {
+  const type = attributeValue(node, "type")
+  if (type && LABEL_SIZED_INPUT_TYPES.includes(type)) return []
+  // className comes after the size variant, so its classes win
+  const classes = [...sizeClasses(node, tag), ...staticClasses(node)]
+  const sites: AccessibilitySite[] = []
+  for (const axis of ["h", "w"] as const) {
+    const dimension = touchSize(classes, axis, lineHeights)
+    if (!dimension || dimension.px >= TOUCH_TARGET_PX) continue
+    const measure = axis === "h" ? "tall" : "wide"
+    const about = dimension.estimated ? "about " : ""
+    const source = dimension.source.origin ?? dimension.source.token.raw
+    sites.push({
+      finding: finding(
+        "accessibility/touch-target",
+        `${source} leaves <${tag}> ${about}${dimension.px}px ${measure}; touch targets must be at least ${TOUCH_TARGET_PX}×${TOUCH_TARGET_PX}px`,
+        `add pointer-coarse:min-${axis}-${pxToSpacing(TOUCH_TARGET_PX)}`,
+      ),
+      pos: dimension.source.pos,
+      source,
+    })
+  }
+  return sites
+}
+
+function checkKeyboard(node: JsxTag, tag: string): AccessibilitySite | undefined {
+  if (!attribute(node, "onClick") || hasSpread(node)) return undefined
+  const missing = [
+    ...(attribute(node, "role") ? [] : ["role"]),
+    ...(attribute(node, "tabIndex") ? [] : ["tabIndex"]),
+    ...(KEY_HANDLERS.some((handler) => attribute(node, handler)) ? [] : ["onKeyDown"]),
+  ]
+  if (!missing.length) return undefined
+  return {
+    finding: finding(
+      "accessibility/keyboard",
+      `<${tag} onClick> is not keyboard accessible; it has no ${missing.join(", ")}`,
+      `use <Button>, or add role="button", tabIndex={0} and an onKeyDown handler for Enter and Space`,
+    ),
+    pos: node.tagName.getStart(),
+    source: `<${tag} onClick>`,
+  }
+}
+
+function hasAccessibleName(node: JsxTag): boolean {
+  return !!attribute(node, "aria-label") || !!attribute(node, "aria-labelledby") || hasSpread(node)
+}
+
+/** Whitespace gives no name: `<X /> ` and `<X />{" "}` are still icon-only, as is an empty `{}` */
+function isBlank(child: ts.JsxChild): boolean {
+  if (ts.isJsxText(child)) return !child.text.trim()
+  if (!ts.isJsxExpression(child)) return false
+  return !child.expression || (ts.isStringLiteralLike(child.expression) && !child.expression.text.trim())
+}
+
+function checkIconLabel(element: ts.JsxElement, tag: string, icons: Set<string>): AccessibilitySite | undefined {
+  const opening = element.openingElement
+  if (hasAccessibleName(opening)) return undefined
+  const children = element.children.filter((child) => !isBlank(child))
+  const isIcon = (child: ts.JsxChild) => {
+    const childTag = ts.isJsxElement(child) ? tagName(child.openingElement) : ts.isJsxSelfClosingElement(child) ? tagName(child) : undefined
+    return !!childTag && (childTag === "svg" || childTag.endsWith("Icon") || icons.has(childTag))
+  }
+  if (!children.length || !children.every(isIcon)) return undefined
+  return {
+    finding: finding(
+      "accessibility/icon-label",
+      `Icon-only <${tag}> has no accessible name`,
+      `add aria-label="..." describing the action`,
+    ),
+    pos: opening.tagName.getStart(),
+    source: `<${tag}>`,
+  }
+}
+
+function checkHeading(node: JsxTag, tag: string, previous: number | undefined): AccessibilitySite | undefined {
+  const level = Number(tag.slice(1))
+  if (previous === undefined || level <= previous + 1) return undefined
+  return {
+    finding: finding(
+      "semantic/heading-order",
+      `<${tag}> follows <h${previous}>; heading levels must not be skipped`,
+      `<h${previous + 1}>`,
+    ),
+    pos: node.tagName.getStart(),
+    source: `<${tag}>`,
+  }
+}
+
+/** Local names bound to imports from icon packages */
+function iconImports(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>()
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue
+    if (!ICON_MODULES.test(statement.moduleSpecifier.text)) continue
+    const bindings = statement.importClause?.namedBindings
+    if (bindings && ts.isNamedImports(bindings)) bindings.elements.forEach((element) => names.add(element.name.text))
+  }
+  return names
+}
+
+/** The elements enclosing `node`, innermost first */
+function ancestors(node: ts.Node): ts.JsxElement[] {
+  const result: ts.JsxElement[] = []
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (ts.isJsxElement(parent)) result.push(parent)
+  }
+  return result
+}
+
+function containsTag(element: ts.JsxElement, tags: string[]): boolean {
+  let found = false
+  const visit = (node: ts.Node) => {
+    if (found) return
+    if ((ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) && tags.includes(tagName(node))) found = true
+    else ts.forEachChild(node, visit)
+  }
+  element.children.forEach(visit)
+  return found
+}
+
+function isLabeled(node: JsxTag, labelTargets: Set<string>): boolean {
+  if (hasAccessibleName(node)) return true
+  const id = attributeValue(node, "id")
+  if (id !== undefined && labelTargets.has(id)) return true
+  return ancestors(node).some((element) => {
+    const tag = tagName(element.openingElement)
+    if (LABELS.includes(tag)) return true
+    // shadcn's FormControl wires the input to the FormItem's FormLabel
+    if (tag === "FormItem") return containsTag(element, ["FormLabel"])
+    return tag === "DSFormField" && !!attribute(element.openingElement, "label")
+  })
+}
+
+function checkFormLabel(node: JsxTag, tag: string, labelTargets: Set<string>): AccessibilitySite | undefined {
+  const type = attributeValue(node, "type")
+  if (type && UNLABELED_INPUT_TYPES.includes(type)) return undefined
+  if (isLabeled(node, labelTargets)) return undefined
+  return {
+    finding: finding(
+      "semantic/form-label",
+      `<${tag}> has no associated label`,
+      `add <Label htmlFor="..."> with a matching id, or aria-label`,
+    ),
+    pos: node.tagName.getStart(),
+    source: `<${tag}>`,
+  }
+}
+
+/** Runs the JSX accessibility checks over one parsed file */
+export function checkAccessibility(sourceFile: ts.SourceFile, config: ComplianceConfig): AccessibilitySite[] {
+  const lineHeights = Object.fromEntries(
+    Object.entries(fontSizeScale({ compliance: config })).map(([name, px]) => [name, lineHeightFor(px)]),
+  )
+  const sites: AccessibilitySite[] = []
+  const icons = iconImports(sourceFile)
+  const tags: JsxTag[] = []
+  const labelTargets = new Set<string>()
+  const collect = (node: ts.Node) => {
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      tags.push(node)
+      const target = attributeValue(node, "htmlFor")
+      if (target !== undefined) labelTargets.add(target)
+    }
+    ts.forEachChild(node, collect)
+  }
+  collect(sourceFile)
+
+  let heading: number | undefined
+  for (const node of tags) {
+    const tag = tagName(node)
+    const clickable = !!attribute(node, "onClick")
+    if (TOUCH_TARGETS.includes(tag) || clickable) sites.push(...checkTouchTarget(node, tag, lineHeights))
+    if (isIntrinsic(tag) && !NATIVE_INTERACTIVE.includes(tag)) {
+      const site = checkKeyboard(node, tag)
+      if (site) sites.push(site)
+    }
+    if (BUTTONS.includes(tag) && ts.isJsxOpeningElement(node)) {
+      const site = checkIconLabel(node.parent, tag, icons)
+      if (site) sites.push(site)
+    }
+    if (INPUTS.includes(tag)) {
+      const site = checkFormLabel(node, tag, labelTargets)
+      if (site) sites.push(site)
+    }
+    if (/^h[1-6]$/.test(tag)) {
+      const site = checkHeading(node, tag, heading)
+      if (site) sites.push(site)
+      heading = Number(tag.slice(1))
+    }
+  }
+  return sites
+}
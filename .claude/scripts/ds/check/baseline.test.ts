@@ -0,0 +1,97 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import type { FileResult, Violation } from "../types"
+import { applyBaseline, BASELINE_FILE, createBaseline, ratchet, readBaseline, writeBaseline, type Baseline } from "./baseline"
+
+let root: string
+
+function violation(source: string, line = 1, ruleId = "spacing/off-grid"): Violation {
+  return { ruleId, severity: "error", message: `${source} is off the grid`, file: "", line, column: 1, source }
+}
+
+function touch(...files: string[]): void {
+  for (const file of files) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), "")
+  }
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "ds-baseline-"))
+  touch("src/a.tsx", "src/b.tsx", "lib/c.tsx")
+})
+
+afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+const baseline: Baseline = {
+  version: 1,
+  files: {
+    "src/a.tsx": [{ ruleId: "spacing/off-grid", source: "p-[13px]", count: 2 }],
+    "lib/c.tsx": [{ ruleId: "spacing/off-grid", source: "m-[7px]", count: 1 }],
+  },
+}
+
+describe("createBaseline", () => {
+  it("counts violations per rule and source, with paths relative to the root", () => {
+    const results: FileResult[] = [{ file: "a.tsx", violations: [violation("p-[13px]"), violation("p-[13px]", 9)] }]
+    expect(createBaseline(results, root, path.join(root, "src"))).toEqual({ version: 1, files: { "src/a.tsx": baseline.files["src/a.tsx"] } })
+  })
+
+  it("keeps the previous entries of files the run did not check", () => {
+    const results: FileResult[] = [{ file: "src/a.tsx", violations: [] }]
+    expect(createBaseline(results, root, root, baseline).files).toEqual({ "lib/c.tsx": baseline.files["lib/c.tsx"] })
+  })
+})
+
+describe("applyBaseline", () => {
+  it("hides known violations whatever line they moved to and reports new ones", () => {
+    const results: FileResult[] = [
+      { file: "src/a.tsx", violations: [violation("p-[13px]", 40), violation("p-[13px]", 41), violation("p-[13px]", 42)] },
+    ]
+    const outcome = applyBaseline(baseline, results, root, root)
+    expect(outcome.known).toBe(2)
+    expect(outcome.fixed).toBe(0)
+    expect(outcome.results[0].violations.map((found) => found.line)).toEqual([42])
+  })
+
+  it("shrinks only the files this run checked", () => {
+    // A run over src/ must not drop lib/c.tsx's entry
+    const results: FileResult[] = [
+      { file: "src/a.tsx", violations: [violation("p-[13px]")] },
+      { file: "src/b.tsx", violations: [] },
+    ]
+    const outcome = applyBaseline(baseline, results, root, root)
+    expect(outcome.fixed).toBe(1)
+    expect(outcome.baseline.files).toEqual({
+      "src/a.tsx": [{ ruleId: "spacing/off-grid", source: "p-[13px]", count: 1 }],
+      "lib/c.tsx": baseline.files["lib/c.tsx"],
+    })
+  })
+
+  it("drops entries of deleted files", () => {
+    fs.rmSync(path.join(root, "lib/c.tsx"))
+    const outcome = applyBaseline(baseline, [], root, root)
+    expect(outcome.fixed).toBe(1)
+    expect(Object.keys(outcome.baseline.files)).toEqual(["src/a.tsx"])
+  })
+})
+
+describe("ratchet", () => {
+  it("writes the baseline back only when it shrank", () => {
+    writeBaseline(root, baseline)
+    const before = fs.statSync(path.join(root, BASELINE_FILE)).mtimeMs
+    const unchanged = ratchet(root, [{ file: "src/a.tsx", violations: [violation("p-[13px]"), violation("p-[13px]")] }], root)
+    expect(unchanged).toMatchObject({ known: 2, fixed: 0 })
+    expect(fs.statSync(path.join(root, BASELINE_FILE)).mtimeMs).toBe(before)
+
+    expect(ratchet(root, [{ file: "src/a.tsx", violations: [] }], root)).toMatchObject({ known: 0, fixed: 2 })
+    expect(readBaseline(root)!.files).toEqual({ "lib/c.tsx": baseline.files["lib/c.tsx"] })
+  })
+
+  it("passes results through without a baseline", () => {
+    const results: FileResult[] = [{ file: "src/a.tsx", violations: [violation("p-[13px]")] }]
+    expect(ratchet(root, results, root)).toEqual({ results, known: 0, fixed: 0 })
+  })
+})
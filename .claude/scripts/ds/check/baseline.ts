@@ -0,0 +1,152 @@
+// Baseline ratchet for legacy projects: `.design-baseline.json` records the
+// violations a project already had when it adopted the playbook. Only
+// violations beyond the baseline fail a check, and every fix shrinks the
+// baseline for good.
+//
+// Entries are keyed by rule and offending source text rather than line, so
+// edits elsewhere in a file do not turn known violations into new ones.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { readFromDisk, type FileReader } from "../config"
+import type { FileResult, Violation } from "../types"
+
+export const BASELINE_FILE = ".design-baseline.json"
+
+export interface BaselineEntry {
+  ruleId: string
+  source: string
+  count: number
+}
+
+export interface Baseline {
+  version: 1
+  /** Paths relative to the project root */
+  files: Record<string, BaselineEntry[]>
+}
+
+export interface BaselineOutcome {
+  /** Results with known violations removed */
+  results: FileResult[]
+  /** Violations the baseline covered */
+  known: number
+  /** Baselined violations that no longer occur */
+  fixed: number
+  /** The baseline shrunk to what still occurs */
+  baseline: Baseline
+}
+
+const keyOf = (violation: Violation) => `${violation.ruleId}\u0000${violation.source ?? violation.message}`
+
+const toRoot = (root: string, cwd: string, file: string) =>
+  path.relative(root, path.resolve(cwd, file)).split(path.sep).join("/")
+
+export function readBaseline(root: string, read: FileReader = readFromDisk): Baseline | undefined {
+  const text = read(path.join(root, BASELINE_FILE))
+  if (text === undefined) return undefined
+  const baseline = JSON.parse(text) as Baseline
+  if (baseline.version !== 1 || typeof baseline.files !== "object") {
+    throw new Error(`${BASELINE_FILE} is not a version 1 baseline; recreate it with 'ds check --update-baseline'`)
+  }
+  return baseline
+}
+
+export function writeBaseline(root: string, baseline: Baseline): void {
+  const files = Object.fromEntries(
+    Object.keys(baseline.files)
+      .sort()
+      .filter((file) => baseline.files[file].length)
+      .map((file) => [
+        file,
+        [...baseline.files[file]].sort((a, b) => a.ruleId.localeCompare(b.ruleId) || a.source.localeCompare(b.source)),
+      ]),
+  )
+  fs.writeFileSync(path.join(root, BASELINE_FILE), `${JSON.stringify({ version: 1, files }, null, 2)}\n`)
+}
+
+export function countBaseline(baseline: Baseline): number {
+  return Object.values(baseline.files).flat().reduce((sum, entry) => sum + entry.count, 0)
+}
+
+/** Records every current violation; files this run did not check keep their entries from `previous` */
+export function createBaseline(
+  results: FileResult[],
+  root: string,
+  cwd: string = process.cwd(),
+  previous?: Baseline,
+): Baseline {
+  const files: Baseline["files"] = {}
+  const checked = new Set(results.map((result) => toRoot(root, cwd, result.file)))
+  for (const [file, entries] of Object.entries(previous?.files ?? {})) {
+    if (!checked.has(file) && fs.existsSync(path.join(root, file))) files[file] = entries
+  }
+  for (const result of results) {
+    const counts = new Map<string, BaselineEntry>()
+    for (const violation of result.violations) {
+      const key = keyOf(violation)
+      const entry = counts.get(key) ?? { ruleId: violation.ruleId, source: violation.source ?? violation.message, count: 0 }
+      entry.count++
+      counts.set(key, entry)
+    }
+    if (counts.size) files[toRoot(root, cwd, result.file)] = [...counts.values()]
+  }
+  return { version: 1, files }
+}
+
+/**
+ * Splits `results` into known and new violations. Only the checked files, one
+ * result each, can shrink the baseline; entries for files that no longer
+ * exist leave it too, since nothing can check them again.
+ */
+export function applyBaseline(
+  baseline: Baseline,
+  results: FileResult[],
+  root: string,
+  cwd: string = process.cwd(),
+): BaselineOutcome {
+  const files: Baseline["files"] = { ...baseline.files }
+  let known = 0
+  let fixed = 0
+
+  const filtered = results.map((result) => {
+    const file = toRoot(root, cwd, result.file)
+    const entries = baseline.files[file] ?? []
+    const remaining = new Map(entries.map((entry) => [`${entry.ruleId}\u0000${entry.source}`, entry.count]))
+    const violations = result.violations.filter((violation) => {
+      const left = remaining.get(keyOf(violation)) ?? 0
+      if (!left) return true
+      remaining.set(keyOf(violation), left - 1)
+      known++
+      return false
+    })
+    files[file] = entries
+      .map((entry) => ({ ...entry, count: entry.count - (remaining.get(`${entry.ruleId}\u0000${entry.source}`) ?? 0) }))
+      .filter((entry) => entry.count > 0)
+    fixed += [...remaining.values()].reduce((sum, count) => sum + count, 0)
+    return { ...result, violations }
+  })
+
+  for (const [file, entries] of Object.entries(files)) {
+    if (!fs.existsSync(path.join(root, file))) {
+      fixed += entries.reduce((sum, entry) => sum + entry.count, 0)
+      delete files[file]
+    }
+  }
+  for (const file of Object.keys(files)) if (!files[file].length) delete files[file]
+  return { results: filtered, known, fixed, baseline: { version: 1, files } }
+}
+
+export interface RatchetOutcome {
+  results: FileResult[]
+  known: number
+  fixed: number
+}
+
+/** Applies the project's baseline, if it has one, and writes it back when it shrank */
+export function ratchet(root: string, results: FileResult[], cwd: string = process.cwd()): RatchetOutcome {
+  const baseline = readBaseline(root)
+  if (!baseline) return { results, known: 0, fixed: 0 }
+  const outcome = applyBaseline(baseline, results, root, cwd)
+  if (outcome.fixed) writeBaseline(root, outcome.baseline)
+  return { results: outcome.results, known: outcome.known, fixed: outcome.fixed }
+}
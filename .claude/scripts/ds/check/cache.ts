@@ -0,0 +1,67 @@
+// Per-file result cache for long-running checks (`ds watch`). A file is parsed
+// again only when its size or mtime changes or it is invalidated explicitly,
+// e.g. because something it imports changed.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { ComplianceConfig } from "../config"
+import type { FileResult } from "../types"
+import { createImportGraph, type ImportGraph } from "./graph"
+import { checkSource } from "./index"
+
+interface Entry {
+  mtimeMs: number
+  size: number
+  result: FileResult
+}
+
+export interface CheckCache {
+  readonly graph: ImportGraph
+  /** Results for `files` (absolute paths), re-checking only what changed */
+  check(files: string[]): FileResult[]
+  /** Forces `file` to be re-checked on the next `check` */
+  invalidate(file: string): void
+  /** Drops a deleted file from the cache and the import graph */
+  forget(file: string): void
+  /** Number of files parsed by the last `check` */
+  readonly parsed: number
+}
+
+export function createCheckCache(config: ComplianceConfig, root: string, cwd: string = process.cwd()): CheckCache {
+  const entries = new Map<string, Entry>()
+  const graph = createImportGraph(root)
+  let parsed = 0
+
+  const load = (file: string): FileResult | undefined => {
+    const stat = fs.statSync(file, { throwIfNoEntry: false })
+    if (!stat) return undefined
+    const cached = entries.get(file)
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) return cached.result
+
+    const text = fs.readFileSync(file, "utf8")
+    const relative = path.relative(cwd, file) || file
+    const result = { file: relative, violations: checkSource(relative, text, config) }
+    graph.update(file, text)
+    entries.set(file, { mtimeMs: stat.mtimeMs, size: stat.size, result })
+    parsed++
+    return result
+  }
+
+  return {
+    graph,
+    check(files) {
+      parsed = 0
+      return files.flatMap((file) => load(file) ?? [])
+    },
+    invalidate(file) {
+      entries.delete(file)
+    },
+    forget(file) {
+      entries.delete(file)
+      graph.remove(file)
+    },
+    get parsed() {
+      return parsed
+    },
+  }
+}
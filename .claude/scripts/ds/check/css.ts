@@ -0,0 +1,46 @@
+// Declaration and @apply scanning for CSS files. Custom property definitions
+// (`--color-primary: ...`) are token definitions, not usages, and are skipped.
+
+export interface CssDeclaration {
+  property: string
+  value: string
+  /** Absolute position of the value */
+  pos: number
+}
+
+export interface CssApply {
+  text: string
+  pos: number
+}
+
+export interface CssScan {
+  declarations: CssDeclaration[]
+  applies: CssApply[]
+}
+
+/** Blanks out comments while keeping offsets intact */
+function stripComments(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, " "))
+}
+
+export function scanCss(text: string): CssScan {
+  const source = stripComments(text)
+  const declarations: CssDeclaration[] = []
+  const applies: CssApply[] = []
+
+  const applyPattern = /@apply\s+([^;{}]+)/g
+  let match: RegExpExecArray | null
+  while ((match = applyPattern.exec(source))) {
+    applies.push({ text: match[1], pos: match.index + match[0].length - match[1].length })
+  }
+
+  const declarationPattern = /(^|[{;\s])([a-zA-Z-]+)\s*:\s*([^;{}]+?)\s*(?=;|})/g
+  while ((match = declarationPattern.exec(source))) {
+    const property = match[2]
+    if (property.startsWith("--")) continue
+    const pos = source.indexOf(match[3], match.index + match[1].length + property.length)
+    declarations.push({ property, value: match[3], pos })
+  }
+
+  return { declarations, applies }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { extract, parseSource } from "./extract"
+
+const KNOWN = ["Button", "Input"]
+
+function run(text: string, file = "Component.tsx") {
+  return extract(parseSource(file, text), KNOWN)
+}
+
+describe("extract", () => {
+  it("collects className strings with their positions", () => {
+    const text = `<div className="p-4 text-sm" />`
+    const [site] = run(text).classes
+    expect(site.text).toBe("p-4 text-sm")
+    expect(text.slice(site.pos, site.pos + site.text.length)).toBe("p-4 text-sm")
+  })
+
+  it("follows cn() arguments, conditionals, template literals and clsx objects", () => {
+    const text = "<div className={cn(`p-4 ${active ? \"bg-primary\" : \"bg-muted\"} m-2`, { \"gap-3\": open }, size && \"h-8\")} />"
+    expect(run(text).classes.map((site) => site.text.trim()).filter(Boolean)).toEqual([
+      "p-4",
+      "bg-primary",
+      "bg-muted",
+      "m-2",
+      "gap-3",
+      "h-8",
+    ])
+  })
+
+  it("skips the strings a class expression only compares against", () => {
+    const text = `<div className={cn(size === "sm" && "h-8", variant !== "ghost" ? "bg-primary" : "", "p-" + gap)} />`
+    expect(run(text).classes.map((site) => site.text).filter(Boolean)).toEqual(["h-8", "bg-primary", "p-"])
+  })
+
+  it("collects each class call once, even outside JSX", () => {
+    const text = `const base = cn("p-4", clsx("m-2"))\nexport const x = <div className={base} />`
+    expect(run(text, "file.ts").classes.map((site) => site.text)).toEqual(["p-4", "m-2"])
+  })
+
+  it("attributes classes to the shadcn component they style", () => {
+    const text = `<><Button className="h-9" /><button className="h-7" /><Card className="h-9" /></>`
+    expect(run(text).classes.map((site) => site.component)).toEqual(["Button", "Button", undefined])
+  })
+
+  it("names the component a cva() call defines", () => {
+    const text = `const buttonVariants = cva("h-10", { variants: { size: { sm: "h-8" } } })`
+    expect(run(text, "button.ts").classes.map((site) => [site.text, site.component])).toEqual([
+      ["h-10", "Button"],
+      ["h-8", "Button"],
+    ])
+  })
+
+  it("reads literal inline styles and raw elements", () => {
+    const { styles, elements } = run(`<><div style={{ padding: 10, color: "#fff", width: w }} /><input /></>`)
+    expect(styles.map(({ property, value }) => [property, value])).toEqual([
+      ["padding", 10],
+      ["color", "#fff"],
+    ])
+    expect(elements.map((element) => element.tag)).toEqual(["input"])
+  })
+})
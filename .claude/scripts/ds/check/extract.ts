@@ -0,0 +1,162 @@
+// Pulls class strings, inline styles and raw elements out of a TS/TSX file
+// using the TypeScript compiler API.
+
+import * as ts from "typescript"
+import { SHADCN_REPLACEMENTS } from "./rules"
+
+/** Functions whose string arguments are Tailwind class lists */
+export const CLASS_FUNCTIONS = ["cn", "clsx", "cx", "twMerge", "twJoin", "classNames", "cva"]
+
+const CLASS_ATTRIBUTES = ["className", "class"]
+
+export interface ClassSite {
+  text: string
+  /** Absolute position of `text` in the file */
+  pos: number
+  component?: string
+}
+
+export interface StyleSite {
+  property: string
+  value: string | number
+  pos: number
+  component?: string
+}
+
+export interface ElementSite {
+  tag: string
+  pos: number
+}
+
+export interface Extraction {
+  sourceFile: ts.SourceFile
+  classes: ClassSite[]
+  styles: StyleSite[]
+  elements: ElementSite[]
+}
+
+export function parseSource(file: string, text: string): ts.SourceFile {
+  const kind = file.endsWith(".tsx") ? ts.ScriptKind.TSX : file.endsWith(".jsx") ? ts.ScriptKind.JSX : ts.ScriptKind.TS
+  return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, kind)
+}
+
+function calleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression
+  if (ts.isIdentifier(callee)) return callee.text
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text
+  return undefined
+}
+
+export function isClassCall(node: ts.Node): node is ts.CallExpression {
+  if (!ts.isCallExpression(node)) return false
+  const name = calleeName(node)
+  return !!name && CLASS_FUNCTIONS.includes(name)
+}
+
+/** `const buttonVariants = cva(...)` → `Button` */
+function componentForCva(call: ts.CallExpression): string | undefined {
+  const parent = call.parent
+  if (!ts.isVariableDeclaration(parent) || !ts.isIdentifier(parent.name)) return undefined
+  const base = parent.name.text.replace(/Variants$/, "")
+  return base.charAt(0).toUpperCase() + base.slice(1)
+}
+
+/** Operators whose string operands can end up in the class list; comparisons only test them */
+const CLASS_OPERATORS: ts.SyntaxKind[] = [
+  ts.SyntaxKind.PlusToken,
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]
+
+function tagName(node: ts.JsxOpeningElement | ts.JsxSelfClosingElement): string {
+  return node.tagName.getText()
+}
+
+export function extract(sourceFile: ts.SourceFile, knownComponents: string[]): Extraction {
+  const result: Extraction = { sourceFile, classes: [], styles: [], elements: [] }
+  const consumed = new Set<ts.Node>()
+
+  function componentFor(tag: string): string | undefined {
+    const name = SHADCN_REPLACEMENTS[tag] ?? tag
+    return knownComponents.includes(name) ? name : undefined
+  }
+
+  function collect(node: ts.Node, component: string | undefined): void {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      result.classes.push({ text: node.text, pos: node.getStart() + 1, component })
+    } else if (ts.isTemplateExpression(node)) {
+      result.classes.push({ text: node.head.text, pos: node.head.getStart() + 1, component })
+      for (const span of node.templateSpans) {
+        collect(span.expression, component)
+        result.classes.push({ text: span.literal.text, pos: span.literal.getStart() + 1, component })
+      }
+    } else if (ts.isConditionalExpression(node)) {
+      collect(node.whenTrue, component)
+      collect(node.whenFalse, component)
+    } else if (ts.isBinaryExpression(node) && CLASS_OPERATORS.includes(node.operatorToken.kind)) {
+      collect(node.left, component)
+      collect(node.right, component)
+    } else if (ts.isArrayLiteralExpression(node)) {
+      node.elements.forEach((element) => collect(element, component))
+    } else if (ts.isObjectLiteralExpression(node)) {
+      for (const property of node.properties) {
+        if (!ts.isPropertyAssignment(property)) continue
+        // clsx object syntax: { "p-4": isActive }
+        if (ts.isStringLiteral(property.name)) collect(property.name, component)
+        collect(property.initializer, component)
+      }
+    } else if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      collect(node.expression, component)
+    } else if (isClassCall(node)) {
+      consumed.add(node)
+      node.arguments.forEach((argument) => collect(argument, component))
+    }
+  }
+
+  function collectStyle(node: ts.Expression, component: string | undefined): void {
+    if (!ts.isObjectLiteralExpression(node)) return
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) continue
+      const name = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) ? property.name.text : undefined
+      const init = property.initializer
+      if (!name) continue
+      if (ts.isStringLiteral(init) || ts.isNoSubstitutionTemplateLiteral(init)) {
+        result.styles.push({ property: name, value: init.text, pos: init.getStart(), component })
+      } else if (ts.isNumericLiteral(init)) {
+        result.styles.push({ property: name, value: Number(init.text), pos: init.getStart(), component })
+      }
+    }
+  }
+
+  function visitElement(node: ts.JsxOpeningElement | ts.JsxSelfClosingElement): void {
+    const tag = tagName(node)
+    const component = componentFor(tag)
+    if (SHADCN_REPLACEMENTS[tag]) result.elements.push({ tag, pos: node.tagName.getStart() })
+    for (const attribute of node.attributes.properties) {
+      if (!ts.isJsxAttribute(attribute) || !attribute.initializer) continue
+      const name = attribute.name.getText()
+      const init = attribute.initializer
+      if (CLASS_ATTRIBUTES.includes(name)) {
+        if (ts.isStringLiteral(init)) collect(init, component)
+        else if (ts.isJsxExpression(init) && init.expression) collect(init.expression, component)
+      } else if (name === "style" && ts.isJsxExpression(init) && init.expression) {
+        collectStyle(init.expression, component)
+      }
+    }
+  }
+
+  function visit(node: ts.Node): void {
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      visitElement(node)
+    } else if (isClassCall(node) && !consumed.has(node)) {
+      consumed.add(node)
+      const component = calleeName(node) === "cva" ? componentFor(componentForCva(node) ?? "") : undefined
+      node.arguments.forEach((argument) => collect(argument, component))
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return result
+}
@@ -0,0 +1,55 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { createImportGraph, importSpecifiers } from "./graph"
+
+let root: string
+
+function write(file: string, text: string): string {
+  const absolute = path.join(root, file)
+  fs.mkdirSync(path.dirname(absolute), { recursive: true })
+  fs.writeFileSync(absolute, text)
+  return absolute
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "ds-graph-"))
+  write("tsconfig.json", JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@/*": ["./src/*"] } } }))
+})
+
+afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+describe("importSpecifiers", () => {
+  it("reads CSS @import as well as module imports", () => {
+    expect(importSpecifiers("a.css", `@import "./theme.css";\n@import url("./base.css");`)).toEqual(["./theme.css", "./base.css"])
+    expect(importSpecifiers("a.tsx", `import { x } from "./x"\nexport * from "@/y"`)).toEqual(["./x", "@/y"])
+  })
+})
+
+describe("createImportGraph", () => {
+  it("follows tsconfig path aliases and relative imports transitively", () => {
+    const button = write("src/components/ui/button.tsx", "export const Button = () => null\n")
+    const card = write("src/components/card.tsx", `import { Button } from "@/components/ui/button"\n`)
+    const page = write("src/app/page.tsx", `import { Card } from "../components/card"\nimport React from "react"\n`)
+    const graph = createImportGraph(root)
+    for (const file of [button, card, page]) graph.update(file, fs.readFileSync(file, "utf8"))
+
+    expect(graph.dependents(button)).toEqual(new Set([card, page]))
+    expect(graph.dependents(page)).toEqual(new Set())
+  })
+
+  it("tracks stylesheets and forgets edges on update and remove", () => {
+    const theme = write("src/theme.css", ":root {}\n")
+    const globals = write("src/globals.css", `@import "./theme.css";\n`)
+    const layout = write("src/layout.tsx", `import "./globals.css"\n`)
+    const graph = createImportGraph(root)
+    for (const file of [theme, globals, layout]) graph.update(file, fs.readFileSync(file, "utf8"))
+    expect(graph.dependents(theme)).toEqual(new Set([globals, layout]))
+
+    graph.update(globals, ":root {}\n")
+    expect(graph.dependents(theme)).toEqual(new Set())
+    graph.remove(layout)
+    expect(graph.dependents(globals)).toEqual(new Set())
+  })
+})
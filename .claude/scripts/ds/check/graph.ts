@@ -0,0 +1,91 @@
+// Import graph for incremental checking: which files a file imports, and which
+// files (transitively) import it. Specifiers resolve the way the project's
+// tsconfig.json says, so `@/components/ui/button` finds the right file.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import * as ts from "typescript"
+
+/** Compiler options from tsconfig.json in `root` (following its `extends`), or bundler defaults */
+export function readCompilerOptions(root: string, name = "tsconfig.json"): ts.CompilerOptions {
+  const defaults: ts.CompilerOptions = {
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    module: ts.ModuleKind.ESNext,
+    allowJs: true,
+    jsx: ts.JsxEmit.Preserve,
+  }
+  const file = path.join(root, name)
+  if (!fs.existsSync(file)) return defaults
+  const { config, error } = ts.readConfigFile(file, ts.sys.readFile)
+  if (error) return defaults
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, root, undefined, file)
+  return { ...defaults, ...options }
+}
+
+const CSS_IMPORT = /@import\s+(?:url\()?\s*["']([^"']+)["']/g
+
+/** Raw import specifiers of one file */
+export function importSpecifiers(file: string, text: string): string[] {
+  if (file.endsWith(".css")) return [...text.matchAll(CSS_IMPORT)].map((match) => match[1])
+  return ts.preProcessFile(text, true, true).importedFiles.map((entry) => entry.fileName)
+}
+
+export interface ImportGraph {
+  /** Re-reads the imports of `file` from its current contents */
+  update(file: string, text: string): void
+  remove(file: string): void
+  /** Every file that imports `file`, directly or through other files */
+  dependents(file: string): Set<string>
+}
+
+export function createImportGraph(root: string): ImportGraph {
+  const options = readCompilerOptions(root)
+  const host = ts.sys
+  const imports = new Map<string, Set<string>>()
+  const importers = new Map<string, Set<string>>()
+
+  const resolve = (specifier: string, from: string): string | undefined => {
+    const relative = specifier.startsWith(".") ? path.resolve(path.dirname(from), specifier) : undefined
+    // TypeScript resolves modules; stylesheets and other assets are plain paths
+    if (relative && path.extname(relative) && !/\.[jt]sx?$/.test(relative)) {
+      return fs.existsSync(relative) ? relative : undefined
+    }
+    const resolved = ts.resolveModuleName(specifier, from, options, host).resolvedModule
+    if (!resolved || resolved.isExternalLibraryImport) return undefined
+    return path.resolve(resolved.resolvedFileName)
+  }
+
+  const remove = (file: string) => {
+    for (const target of imports.get(file) ?? []) importers.get(target)?.delete(file)
+    imports.delete(file)
+  }
+
+  return {
+    update(file, text) {
+      remove(file)
+      const targets = new Set<string>()
+      for (const specifier of importSpecifiers(file, text)) {
+        const target = resolve(specifier, file)
+        if (target) targets.add(target)
+      }
+      imports.set(file, targets)
+      for (const target of targets) {
+        if (!importers.has(target)) importers.set(target, new Set())
+        importers.get(target)!.add(file)
+      }
+    },
+    remove,
+    dependents(file) {
+      const seen = new Set<string>()
+      const queue = [file]
+      while (queue.length) {
+        for (const importer of importers.get(queue.pop()!) ?? []) {
+          if (importer === file || seen.has(importer)) continue
+          seen.add(importer)
+          queue.push(importer)
+        }
+      }
+      return seen
+    },
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import { COMPLIANCE } from "../fixtures/compliance"
+import { analyzeSource, checkSource } from "."
+
+const check = (text: string, file = "src/Page.tsx") =>
+  checkSource(file, text, COMPLIANCE).map(({ ruleId, line, source, suggestion }) => ({ ruleId, line, source, suggestion }))
+
+describe("checkSource", () => {
+  it("snaps off-grid spacing to the scale, keeping variants", () => {
+    expect(check(`<div className="md:p-[25px] gap-4" />`)).toEqual([
+      { ruleId: "spacing/off-grid", line: 1, source: "md:p-[25px]", suggestion: "md:p-6" },
+    ])
+  })
+
+  it("checks font sizes, weights and families", () => {
+    expect(check(`<p className="text-[15px] font-light font-serif" />`).map((v) => [v.ruleId, v.suggestion])).toEqual([
+      ["typography/font-size", "text-base"],
+      ["typography/font-weight", "font-normal"],
+      ["typography/font-family", "font-sans"],
+    ])
+  })
+
+  it("maps hardcoded colors to semantic tokens through the config", () => {
+    expect(check(`<div className="bg-blue-500/50 text-[#10b981] border-red-700" />`).map((v) => v.suggestion)).toEqual([
+      "bg-primary/50",
+      "text-secondary",
+      undefined,
+    ])
+  })
+
+  it("holds shadcn components to their standard heights", () => {
+    const heights = (text: string) => check(text).filter((v) => v.ruleId === "component/height")
+    expect(heights(`<Button className="h-9" />`)).toEqual([expect.objectContaining({ suggestion: "h-10" })])
+    expect(heights(`<Card className="h-9" />`)).toEqual([])
+  })
+
+  it("checks inline styles and CSS", () => {
+    expect(check(`<div style={{ padding: 10, fontWeight: 300 }} />`).map((v) => v.ruleId)).toEqual([
+      "spacing/off-grid",
+      "typography/font-weight",
+    ])
+    expect(check(".card {\n  margin: 10px;\n  @apply p-[10px];\n}", "src/app.css").map((v) => [v.ruleId, v.line])).toEqual([
+      ["spacing/off-grid", 2],
+      ["spacing/off-grid", 3],
+    ])
+  })
+
+  it("flags raw elements outside components/ui", () => {
+    expect(check(`<button />`)).toEqual([expect.objectContaining({ ruleId: "component/shadcn-base", suggestion: "<Button>" })])
+    expect(check(`<button />`, "src/components/ui/button.tsx")).toEqual([])
+  })
+
+  it("drops suppressed violations", () => {
+    expect(check(`// ds-disable-next-line spacing/off-grid\n<div className="p-[10px] bg-blue-500" />`).map((v) => v.ruleId)).toEqual([
+      "color/semantic-token",
+    ])
+  })
+
+  it("leaves values that are not on the config's vocabulary alone", () => {
+    expect(check(`<div className="p-0 bg-primary text-foreground font-semibold h-full w-[50%]" />`)).toEqual([])
+  })
+})
+
+describe("analyzeSource", () => {
+  it("only offers a fix when the token matches the source verbatim", () => {
+    const text = "<div className={`p-[10px] \\u0020 m-[10px]`} />"
+    const fixes = analyzeSource("src/Page.tsx", text, COMPLIANCE).map(({ fix }) => fix && text.slice(fix.start, fix.end))
+    expect(fixes).toEqual(["p-[10px]", undefined])
+  })
+})
@@ -0,0 +1,146 @@
+// Compliance engine: runs the rules over one source text or a set of files.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { ComplianceConfig } from "../config"
+import type { FileResult, Violation } from "../types"
+import { checkAccessibility } from "./a11y"
+import { scanCss } from "./css"
+import { extract, parseSource } from "./extract"
+import { checkClassToken, checkStyleDeclaration, getRule, SHADCN_REPLACEMENTS, type Finding } from "./rules"
+import { cssComments, parseSuppressions, sourceComments, type CommentRange } from "./suppress"
+import { splitClassList } from "./tailwind"
+
+export const SOURCE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".css"]
+export const IGNORED_DIRECTORIES = ["node_modules", ".git", ".next", "dist", "build", "out", "coverage"]
+
+/** shadcn/ui primitives live here; they may wrap raw elements and set their own sizes */
+const UI_PRIMITIVES = /(^|\/)components\/ui\//
+
+function lineLocator(text: string): (pos: number) => { line: number; column: number } {
+  const starts = [0]
+  for (let i = 0; i < text.length; i++) if (text.charCodeAt(i) === 10) starts.push(i + 1)
+  return (pos) => {
+    let low = 0
+    let high = starts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (starts[mid] <= pos) low = mid
+      else high = mid - 1
+    }
+    return { line: low + 1, column: pos - starts[low] + 1 }
+  }
+}
+
+function sortViolations(violations: Violation[]): Violation[] {
+  return violations.sort((a, b) => a.line - b.line || a.column - b.column || a.ruleId.localeCompare(b.ruleId))
+}
+
+/** A text replacement that resolves a violation */
+export interface Fix {
+  start: number
+  end: number
+  text: string
+}
+
+export interface Located {
+  violation: Violation
+  fix?: Fix
+}
+
+/**
+ * Runs every rule over one file's contents and keeps source offsets, so
+ * callers can rewrite the exact token behind a violation. Suppressed
+ * violations are dropped.
+ */
+export function analyzeSource(file: string, text: string, config: ComplianceConfig): Located[] {
+  const located: Located[] = []
+  const locate = lineLocator(text)
+  const report = (found: Finding, pos: number, source?: string, fix?: Fix) => {
+    located.push({ violation: { ...found, file, ...locate(pos), source }, fix })
+  }
+  const checkClasses = (classText: string, pos: number, component?: string) => {
+    for (const token of splitClassList(classText)) {
+      const start = pos + token.offset
+      const end = start + token.raw.length
+      // Escapes in template literals shift offsets; only rewrite what matches verbatim
+      const exact = text.slice(start, end) === token.raw
+      for (const found of checkClassToken(token, { config, component })) {
+        const fix = exact && found.suggestion ? { start, end, text: found.suggestion } : undefined
+        report(found, start, token.raw, fix)
+      }
+    }
+  }
+
+  let comments: CommentRange[]
+  if (file.endsWith(".css")) {
+    comments = cssComments(text)
+    const { declarations, applies } = scanCss(text)
+    for (const apply of applies) checkClasses(apply.text, apply.pos)
+    for (const declaration of declarations) {
+      for (const found of checkStyleDeclaration(declaration.property, declaration.value, { config })) {
+        report(found, declaration.pos, `${declaration.property}: ${declaration.value}`)
+      }
+    }
+  } else {
+    const sourceFile = parseSource(file, text)
+    comments = sourceComments(sourceFile)
+    const { classes, styles, elements } = extract(sourceFile, Object.keys(config.componentHeights))
+    for (const site of classes) checkClasses(site.text, site.pos, site.component)
+    for (const style of styles) {
+      for (const found of checkStyleDeclaration(style.property, style.value, { config, component: style.component })) {
+        report(found, style.pos, `${style.property}: ${JSON.stringify(style.value)}`)
+      }
+    }
+    if (!UI_PRIMITIVES.test(file.split(path.sep).join("/"))) {
+      const rule = getRule("component/shadcn-base")
+      for (const element of elements) {
+        const replacement = SHADCN_REPLACEMENTS[element.tag]
+        report(
+          {
+            ruleId: rule.id,
+            severity: rule.severity,
+            message: `Raw <${element.tag}> element; use the shadcn/ui <${replacement}> component`,
+            suggestion: `<${replacement}>`,
+          },
+          element.pos,
+          `<${element.tag}>`,
+        )
+      }
+      for (const site of checkAccessibility(sourceFile, config)) report(site.finding, site.pos, site.source)
+    }
+  }
+
+  const suppressed = parseSuppressions(text, comments)
+  return located.filter(({ violation }) => !suppressed(violation.ruleId, violation.line))
+}
+
+/** Checks one file's contents. `file` is only used for reporting and to pick the parser. */
+export function checkSource(file: string, text: string, config: ComplianceConfig): Violation[] {
+  return sortViolations(analyzeSource(file, text, config).map(({ violation }) => violation))
+}
+
+export function collectFiles(targets: string[], cwd: string = process.cwd()): string[] {
+  const files: string[] = []
+  const walk = (entry: string) => {
+    const stat = fs.statSync(entry, { throwIfNoEntry: false })
+    if (!stat) throw new Error(`No such file or directory: ${path.relative(cwd, entry) || entry}`)
+    if (stat.isDirectory()) {
+      for (const child of fs.readdirSync(entry).sort()) {
+        if (IGNORED_DIRECTORIES.includes(child)) continue
+        walk(path.join(entry, child))
+      }
+    } else if (SOURCE_EXTENSIONS.includes(path.extname(entry)) && !entry.endsWith(".d.ts")) {
+      files.push(entry)
+    }
+  }
+  for (const target of targets) walk(path.resolve(cwd, target))
+  return [...new Set(files)]
+}
+
+export function checkFiles(files: string[], config: ComplianceConfig, cwd: string = process.cwd()): FileResult[] {
+  return files.map((absolute) => {
+    const file = path.relative(cwd, absolute) || absolute
+    return { file, violations: checkSource(file, fs.readFileSync(absolute, "utf8"), config) }
+  })
+}
@@ -0,0 +1,395 @@
+// Rule catalog and the class/style checks behind `ds check`.
+// Rule IDs are stable: they appear in reports, SARIF and ds-disable comments.
+
+import type { ComplianceConfig } from "../config"
+import type { RuleMeta, Severity } from "../types"
+import {
+  COLOR_PREFIXES,
+  FONT_FAMILIES,
+  FONT_WEIGHTS,
+  NEUTRAL_COLOR_KEYWORDS,
+  SPACING_PREFIXES,
+  TEXT_SIZES,
+  arbitraryValue,
+  isArbitraryColor,
+  isPaletteColor,
+  pxToSpacing,
+  spacingToPx,
+  splitUtility,
+  stripOpacity,
+  type ClassToken,
+} from "./tailwind"
+
+export const RULES: RuleMeta[] = [
+  {
+    id: "component/shadcn-base",
+    specRule: 1,
+    specSection: "COMPONENT FOUNDATION RULES",
+    description: "Interactive elements must use shadcn/ui components instead of raw HTML",
+    severity: "error",
+  },
+  {
+    id: "spacing/off-grid",
+    specRule: 2,
+    specSection: "SPACING SYSTEM RULES",
+    description: "Padding, margin and gaps must use values from spacing.scale",
+    severity: "error",
+  },
+  {
+    id: "typography/font-family",
+    specRule: 3,
+    specSection: "TYPOGRAPHY SYSTEM RULES",
+    description: "Only the configured font family may be used",
+    severity: "error",
+  },
+  {
+    id: "typography/font-weight",
+    specRule: 3,
+    specSection: "TYPOGRAPHY SYSTEM RULES",
+    description: "Only the configured font weights may be used",
+    severity: "error",
+  },
+  {
+    id: "typography/font-size",
+    specRule: 3,
+    specSection: "TYPOGRAPHY SYSTEM RULES",
+    description: "Font sizes must be on the typography grid",
+    severity: "error",
+  },
+  {
+    id: "color/semantic-token",
+    specRule: 4,
+    specSection: "COLOR SYSTEM RULES",
+    description: "Colors must use semantic tokens, not palette or arbitrary values",
+    severity: "error",
+  },
+  {
+    id: "component/height",
+    specRule: 5,
+    specSection: "COMPONENT SIZE RULES",
+    description: "Component heights must be one of the standard heights",
+    severity: "error",
+  },
+  {
+    id: "accessibility/icon-label",
+    specRule: 6,
+    specSection: "ACCESSIBILITY SYSTEM RULES",
+    description: "Icon-only buttons must have an aria-label",
+    severity: "error",
+  },
+  {
+    id: "accessibility/touch-target",
+    specRule: 7,
+    specSection: "ACCESSIBILITY SYSTEM RULES",
+    description: "Interactive elements must be at least 44×44px on touch screens",
+    severity: "error",
+  },
+  {
+    id: "accessibility/keyboard",
+    specRule: 8,
+    specSection: "ACCESSIBILITY SYSTEM RULES",
+    description: "Clickable non-interactive elements need a role, tabIndex and a key handler",
+    severity: "error",
+  },
+  {
+    id: "color/contrast",
+    specRule: 9,
+    specSection: "ACCESSIBILITY SYSTEM RULES",
+    description: "Theme color pairs must meet the WCAG 2.1 AA (or configured APCA) contrast minimums",
+    severity: "error",
+  },
+  {
+    id: "semantic/form-label",
+    specRule: 10,
+    specSection: "ACCESSIBILITY SYSTEM RULES",
+    description: "Inputs must have an associated Label or FormLabel",
+    severity: "error",
+  },
+  {
+    id: "semantic/heading-order",
+    specRule: 10,
+    specSection: "ACCESSIBILITY SYSTEM RULES",
+    description: "Heading levels must not be skipped",
+    severity: "error",
+  },
+]
+
+/** Rules whose suggestions are safe, mechanical replacements that `ds auto` applies */
+export const FIXABLE_RULES = [
+  "spacing/off-grid",
+  "typography/font-size",
+  "typography/font-weight",
+  "color/semantic-token",
+  "component/height",
+]
+
+export function getRule(id: string): RuleMeta {
+  const rule = RULES.find((candidate) => candidate.id === id)
+  if (!rule) throw new Error(`Unknown rule: ${id}`)
+  return rule
+}
+
+export interface Finding {
+  ruleId: string
+  severity: Severity
+  message: string
+  suggestion?: string
+}
+
+export interface CheckContext {
+  config: ComplianceConfig
+  /** shadcn/ui component the classes are applied to, e.g. `Button` */
+  component?: string
+}
+
+/** Raw HTML elements that have a shadcn/ui replacement */
+export const SHADCN_REPLACEMENTS: Record<string, string> = {
+  button: "Button",
+  input: "Input",
+  textarea: "Textarea",
+  select: "Select",
+  label: "Label",
+}
+
+/**
+ * Closest allowed value. Ties go to the candidate nearest `prefer` when given,
+ * otherwise they snap up, away from undersized targets.
+ */
+export function nearest(value: number, allowed: number[], prefer?: number): number {
+  return [...allowed].sort((a, b) => a - b).reduce((best, candidate) => {
+    const distance = Math.abs(candidate - value) - Math.abs(best - value)
+    if (distance !== 0) return distance < 0 ? candidate : best
+    if (prefer === undefined) return candidate
+    return Math.abs(candidate - prefer) < Math.abs(best - prefer) ? candidate : best
+  })
+}
+
+export function finding(ruleId: string, message: string, suggestion?: string): Finding {
+  return { ruleId, severity: getRule(ruleId).severity, message, suggestion }
+}
+
+function withModifiers(token: ClassToken, utility: string): string {
+  const prefix = token.variants.length ? `${token.variants.join(":")}:` : ""
+  return `${prefix}${token.important ? "!" : ""}${token.negative ? "-" : ""}${utility}`
+}
+
+function checkSpacing(token: ClassToken, ctx: CheckContext): Finding | undefined {
+  const split = splitUtility(token.utility, SPACING_PREFIXES)
+  if (!split) return undefined
+  const [prefix, value] = split
+  const px = spacingToPx(value)
+  if (px === undefined || px === 0 || ctx.config.spacingScale.includes(px)) return undefined
+  const snapped = nearest(px, ctx.config.spacingScale)
+  return finding(
+    "spacing/off-grid",
+    `${token.raw} is ${px}px, which is not on the spacing scale`,
+    withModifiers(token, `${prefix}-${pxToSpacing(snapped)}`),
+  )
+}
+
+function fontSizeFinding(px: number, raw: string, ctx: CheckContext, replacement?: (px: number) => string) {
+  const { fontSizes, maxFontSize } = ctx.config
+  if (fontSizes.includes(px) && px <= maxFontSize) return undefined
+  const allowed = fontSizes.filter((size) => size <= maxFontSize)
+  const snapped = nearest(px, allowed)
+  const reason = px > maxFontSize ? `exceeds the ${maxFontSize}px maximum` : "is not on the typography grid"
+  return finding("typography/font-size", `${raw} is ${px}px, which ${reason}`, replacement?.(snapped))
+}
+
+function textSizeClass(px: number): string {
+  const name = Object.entries(TEXT_SIZES).find(([, size]) => size === px)?.[0]
+  return name ? `text-${name}` : `text-[${px}px]`
+}
+
+function checkText(token: ClassToken, ctx: CheckContext): Finding | undefined {
+  if (!token.utility.startsWith("text-")) return undefined
+  // `text-sm/6` carries a line height
+  const value = token.utility.slice(5).replace(/\/\d+$/, "")
+  let px = TEXT_SIZES[value]
+  const arbitrary = arbitraryValue(value)
+  if (px === undefined && arbitrary !== undefined) {
+    const match = /^(?:length:)?(\d*\.?\d+)(px|rem)$/.exec(arbitrary)
+    if (match) px = match[2] === "rem" ? Number(match[1]) * 16 : Number(match[1])
+  }
+  if (px === undefined) return undefined
+  return fontSizeFinding(px, token.raw, ctx, (snapped) => withModifiers(token, textSizeClass(snapped)))
+}
+
+function weightClass(weight: number): string {
+  const name = Object.entries(FONT_WEIGHTS).find(([, value]) => value === weight)?.[0]
+  return name ? `font-${name}` : `font-[${weight}]`
+}
+
+function weightFinding(weight: number, raw: string, ctx: CheckContext, replacement?: (weight: number) => string) {
+  const { fontWeights } = ctx.config
+  if (fontWeights.includes(weight)) return undefined
+  const snapped = nearest(weight, fontWeights)
+  return finding(
+    "typography/font-weight",
+    `${raw} is weight ${weight}; allowed weights are ${fontWeights.join(", ")}`,
+    replacement?.(snapped),
+  )
+}
+
+function familyFinding(family: string, raw: string, ctx: CheckContext): Finding | undefined {
+  const first = family.split(",")[0].trim().replace(/^['"]|['"]$/g, "")
+  if (first.toLowerCase() === ctx.config.fontFamily.toLowerCase()) return undefined
+  return finding("typography/font-family", `${raw} uses ${first}; only ${ctx.config.fontFamily} is allowed`)
+}
+
+function checkFont(token: ClassToken, ctx: CheckContext): Finding | undefined {
+  if (!token.utility.startsWith("font-")) return undefined
+  const value = token.utility.slice(5)
+  const weight = FONT_WEIGHTS[value]
+  if (weight !== undefined) {
+    return weightFinding(weight, token.raw, ctx, (snapped) => withModifiers(token, weightClass(snapped)))
+  }
+  if (FONT_FAMILIES.includes(value)) {
+    if (value === "sans") return undefined
+    return finding(
+      "typography/font-family",
+      `${token.raw} switches away from ${ctx.config.fontFamily}`,
+      withModifiers(token, "font-sans"),
+    )
+  }
+  const arbitrary = arbitraryValue(value)
+  if (arbitrary === undefined || arbitrary.startsWith("var(")) return undefined
+  if (/^\d+$/.test(arbitrary)) {
+    return weightFinding(Number(arbitrary), token.raw, ctx, (snapped) => withModifiers(token, weightClass(snapped)))
+  }
+  return familyFinding(arbitrary.replace(/^family-name:/, "").replace(/_/g, " "), token.raw, ctx)
+}
+
+/** Semantic replacement for a palette or brand-hex color class, if the config names one */
+function colorReplacement(prefix: string, value: string, ctx: CheckContext): string | undefined {
+  const base = stripOpacity(value)
+  const opacity = value.slice(base.length)
+  const { colorMap, brandHex } = ctx.config
+  const fullClass = colorMap[`${prefix}-${base}`]
+  if (fullClass) return `${fullClass}${opacity}`
+  const hex = arbitraryValue(base)?.toLowerCase()
+  const token = colorMap[base] ?? (hex ? brandHex[hex] : undefined)
+  return token ? `${prefix}-${token}${opacity}` : undefined
+}
+
+function checkColor(token: ClassToken, ctx: CheckContext): Finding | undefined {
+  const split = splitUtility(token.utility, COLOR_PREFIXES)
+  if (!split) return undefined
+  const [prefix, value] = split
+  if (NEUTRAL_COLOR_KEYWORDS.includes(value)) return undefined
+  if (!isPaletteColor(value) && !isArbitraryColor(value)) return undefined
+  const replacement = colorReplacement(prefix, value, ctx)
+  if (replacement) {
+    return finding(
+      "color/semantic-token",
+      `${token.raw} is a hardcoded color`,
+      withModifiers(token, replacement),
+    )
+  }
+  const examples = ctx.config.colorTokens.slice(0, 3).map((name) => `${prefix}-${name}`)
+  return finding(
+    "color/semantic-token",
+    `${token.raw} is a hardcoded color; use a semantic token such as ${examples.join(", ")}`,
+  )
+}
+
+function checkHeight(token: ClassToken, ctx: CheckContext): Finding | undefined {
+  const heights = ctx.component ? ctx.config.componentHeights[ctx.component] : undefined
+  if (!heights?.length) return undefined
+  const split = splitUtility(token.utility, ["h", "size"])
+  if (!split) return undefined
+  const [prefix, value] = split
+  const px = spacingToPx(value)
+  if (px === undefined || heights.includes(px)) return undefined
+  const snapped = nearest(px, heights, ctx.config.standardHeight)
+  return finding(
+    "component/height",
+    `${token.raw} makes ${ctx.component} ${px}px tall; standard heights are ${heights.join(", ")}px`,
+    withModifiers(token, `${prefix}-${pxToSpacing(snapped)}`),
+  )
+}
+
+const CLASS_CHECKS = [checkSpacing, checkText, checkFont, checkColor, checkHeight]
+
+export function checkClassToken(token: ClassToken, ctx: CheckContext): Finding[] {
+  const findings: Finding[] = []
+  for (const check of CLASS_CHECKS) {
+    const result = check(token, ctx)
+    if (result) findings.push(result)
+  }
+  return findings
+}
+
+const SPACING_PROPERTIES = /^(padding|margin|gap|row-gap|column-gap)(-(top|right|bottom|left|inline|block)(-(start|end))?)?$/
+const COLOR_PROPERTIES = /^(color|background|background-color|border(-(top|right|bottom|left))?-color|fill|stroke|outline-color)$/
+const LITERAL_COLOR = /#[0-9a-f]{3,8}\b|\b(rgba?|hsla?|oklch|oklab|lab|lch|hwb)\(|^(white|black|red|blue|green|gray|grey)$/i
+
+function toKebab(property: string): string {
+  return property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+}
+
+/**
+ * Checks one CSS declaration or `style={{...}}` property. Numeric values are
+ * px, as in React inline styles.
+ */
+export function checkStyleDeclaration(property: string, value: string | number, ctx: CheckContext): Finding[] {
+  const name = toKebab(property)
+  const text = String(value).trim()
+  if (text.includes("var(")) return []
+  const raw = `${name}: ${text}`
+
+  if (SPACING_PROPERTIES.test(name)) {
+    const values = typeof value === "number" ? [value] : text.split(/\s+/).map((part) => parsePxValue(part))
+    const offGrid = values.filter(
+      (px): px is number => px !== undefined && px !== 0 && !ctx.config.spacingScale.includes(Math.abs(px)),
+    )
+    if (!offGrid.length) return []
+    const snapped = offGrid.map((px) => `${nearest(Math.abs(px), ctx.config.spacingScale)}px`)
+    return [
+      finding(
+        "spacing/off-grid",
+        `${raw} uses ${offGrid.map((px) => `${px}px`).join(", ")}, which is not on the spacing scale`,
+        `use the nearest grid value (${snapped.join(", ")}) or a spacing class`,
+      ),
+    ]
+  }
+  if (name === "font-size") {
+    const px = typeof value === "number" ? value : parsePxValue(text)
+    const result = px === undefined ? undefined : fontSizeFinding(px, raw, ctx, (snapped) => `${snapped}px`)
+    return result ? [result] : []
+  }
+  if (name === "font-weight") {
+    const weight = typeof value === "number" ? value : FONT_WEIGHTS[text] ?? Number(text)
+    if (!Number.isFinite(weight)) return []
+    const result = weightFinding(weight, raw, ctx, (snapped) => String(snapped))
+    return result ? [result] : []
+  }
+  if (name === "font-family") {
+    if (/^(inherit|initial|unset)$/.test(text)) return []
+    const result = familyFinding(text, raw, ctx)
+    return result ? [result] : []
+  }
+  if ((name === "height" || name === "min-height") && ctx.component) {
+    const heights = ctx.config.componentHeights[ctx.component]
+    const px = typeof value === "number" ? value : parsePxValue(text)
+    if (!heights?.length || px === undefined || heights.includes(px)) return []
+    return [
+      finding(
+        "component/height",
+        `${raw} makes ${ctx.component} ${px}px tall; standard heights are ${heights.join(", ")}px`,
+        `${nearest(px, heights, ctx.config.standardHeight)}px`,
+      ),
+    ]
+  }
+  if (COLOR_PROPERTIES.test(name) && LITERAL_COLOR.test(text)) {
+    return [finding("color/semantic-token", `${raw} is a hardcoded color; use a semantic token`)]
+  }
+  return []
+}
+
+function parsePxValue(text: string): number | undefined {
+  const match = /^(-?\d*\.?\d+)(px|rem)?$/.exec(text)
+  if (!match) return undefined
+  if (!match[2] && Number(match[1]) !== 0) return undefined
+  return match[2] === "rem" ? Number(match[1]) * 16 : Number(match[1])
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { parseSource } from "./extract"
+import { cssComments, parseSuppressions, sourceComments } from "./suppress"
+
+const suppressions = (text: string, file = "page.tsx") =>
+  parseSuppressions(text, file.endsWith(".css") ? cssComments(text) : sourceComments(parseSource(file, text)))
+
+describe("parseSuppressions", () => {
+  it("disables the next line for the listed rules only", () => {
+    const suppressed = suppressions("// ds-disable-next-line spacing/off-grid\nline two\nline three")
+    expect(suppressed("spacing/off-grid", 2)).toBe(true)
+    expect(suppressed("color/semantic-token", 2)).toBe(false)
+    expect(suppressed("spacing/off-grid", 3)).toBe(false)
+  })
+
+  it("disables every rule on the same line without rule IDs", () => {
+    const suppressed = suppressions('<div className="p-5" /> {/* ds-disable-line */}')
+    expect(suppressed("spacing/off-grid", 1)).toBe(true)
+    expect(suppressed("accessibility/keyboard", 1)).toBe(true)
+  })
+
+  it("closes a block at the matching enable and runs an unmatched one to the end", () => {
+    const text = [
+      "/* ds-disable typography/font-weight */",
+      "a",
+      "/* ds-enable typography/font-weight */",
+      "b",
+      "/* ds-disable color/semantic-token */",
+      "c",
+    ].join("\n")
+    const suppressed = suppressions(text, "page.css")
+    expect(suppressed("typography/font-weight", 2)).toBe(true)
+    expect(suppressed("typography/font-weight", 4)).toBe(false)
+    expect(suppressed("color/semantic-token", 6)).toBe(true)
+    expect(suppressed("color/semantic-token", 1000)).toBe(true)
+  })
+
+  it("ignores directives outside comments", () => {
+    const suppressed = suppressions('const text = "ds-disable-next-line"\nnext')
+    expect(suppressed("spacing/off-grid", 2)).toBe(false)
+  })
+
+  it("does not read // in strings, URLs or JSX text as a comment", () => {
+    const text = [
+      "const page = (",
+      "  <>",
+      '    <a className={"p-5"} href="https://example.com/ds-disable-line">// ds-disable-next-line</a>',
+      '    <p className="p-5" />',
+      '    <a className={"p-5"} href="https://example.com"></a> {/* ds-disable-line spacing/off-grid */}',
+      "  </>",
+      ")",
+    ].join("\n")
+    const suppressed = suppressions(text)
+    expect(suppressed("spacing/off-grid", 3)).toBe(false)
+    expect(suppressed("spacing/off-grid", 4)).toBe(false)
+    expect(suppressed("spacing/off-grid", 5)).toBe(true)
+  })
+
+  it("reads only block comments in CSS", () => {
+    const text = '.hero { background: url("https://example.com/ds-disable-line.png"); padding: 20px; }\n/* ds-disable-next-line */\n.b {}'
+    const suppressed = suppressions(text, "page.css")
+    expect(suppressed("spacing/off-grid", 1)).toBe(false)
+    expect(suppressed("spacing/off-grid", 3)).toBe(true)
+  })
+})
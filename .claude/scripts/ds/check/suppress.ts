@@ -0,0 +1,111 @@
+// Inline suppression comments:
+//
+//   // ds-disable-next-line spacing/off-grid
+//   {/* ds-disable-line color/semantic-token */}
+//   /* ds-disable typography/font-weight */ ... /* ds-enable typography/font-weight */
+//
+// Without rule IDs a directive applies to every rule. A `ds-disable` with no
+// matching `ds-enable` runs to the end of the file. Directives are only read
+// from real comments, so `//` in a string, a URL or JSX text is not one.
+
+import * as ts from "typescript"
+
+export interface CommentRange {
+  pos: number
+  end: number
+}
+
+interface Range {
+  from: number
+  to: number
+  /** Empty means all rules */
+  rules: string[]
+}
+
+const DIRECTIVE = /\bds-(disable-next-line|disable-line|disable|enable)\b([^\n*]*)/g
+const CSS_COMMENT = /\/\*[\s\S]*?\*\//g
+
+/**
+ * Every comment in a parsed source file. Each one sits in the trivia before
+ * some token (the end-of-file token for a last comment): on the previous
+ * token's line as a trailing comment, or after it as a leading one.
+ */
+export function sourceComments(sourceFile: ts.SourceFile): CommentRange[] {
+  const text = sourceFile.getFullText()
+  const comments = new Map<number, CommentRange>()
+  const visit = (node: ts.Node) => {
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) return
+    if (node.kind > ts.SyntaxKind.LastToken) {
+      for (const child of node.getChildren(sourceFile)) visit(child)
+      return
+    }
+    // JSX text has no trivia: `// x` there renders as text
+    if (ts.isJsxText(node)) return
+    const start = node.getFullStart()
+    for (const { pos, end } of [...(ts.getTrailingCommentRanges(text, start) ?? []), ...(ts.getLeadingCommentRanges(text, start) ?? [])]) {
+      comments.set(pos, { pos, end })
+    }
+  }
+  visit(sourceFile)
+  return [...comments.values()].sort((a, b) => a.pos - b.pos)
+}
+
+/** CSS only has block comments */
+export function cssComments(text: string): CommentRange[] {
+  return [...text.matchAll(CSS_COMMENT)].map((match) => ({ pos: match.index, end: match.index + match[0].length }))
+}
+
+function lineAt(text: string, pos: number): number {
+  let line = 1
+  for (let i = 0; i < pos; i++) if (text.charCodeAt(i) === 10) line++
+  return line
+}
+
+function parseRules(list: string): string[] {
+  return list
+    .split(/[\s,]+/)
+    .map((rule) => rule.trim())
+    .filter((rule) => /^[a-z]+\/[a-z-]+$/.test(rule))
+}
+
+export type SuppressionCheck = (ruleId: string, line: number) => boolean
+
+export function parseSuppressions(text: string, comments: CommentRange[]): SuppressionCheck {
+  const ranges: Range[] = []
+  const open: { from: number; rules: string[] }[] = []
+
+  for (const comment of comments) {
+    const body = text.slice(comment.pos, comment.end)
+    let directive: RegExpExecArray | null
+    DIRECTIVE.lastIndex = 0
+    while ((directive = DIRECTIVE.exec(body))) {
+      const line = lineAt(text, comment.pos + directive.index)
+      const rules = parseRules(directive[2])
+      switch (directive[1]) {
+        case "disable-next-line":
+          ranges.push({ from: line + 1, to: line + 1, rules })
+          break
+        case "disable-line":
+          ranges.push({ from: line, to: line, rules })
+          break
+        case "disable":
+          open.push({ from: line, rules })
+          break
+        case "enable": {
+          for (let i = open.length - 1; i >= 0; i--) {
+            const sameRules = open[i].rules.join() === rules.join()
+            if (rules.length && !sameRules) continue
+            ranges.push({ from: open[i].from, to: line, rules: open[i].rules })
+            open.splice(i, 1)
+            if (rules.length) break
+          }
+          break
+        }
+      }
+    }
+  }
+  for (const range of open) ranges.push({ from: range.from, to: Number.POSITIVE_INFINITY, rules: range.rules })
+
+  return (ruleId, line) =>
+    ranges.some((range) => line >= range.from && line <= range.to && (!range.rules.length || range.rules.includes(ruleId)))
+}
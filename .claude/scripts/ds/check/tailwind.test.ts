@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { isArbitraryColor, isPaletteColor, parseClass, spacingToPx, splitClassList, splitUtility, stripOpacity } from "./tailwind"
+
+describe("parseClass", () => {
+  it("separates variants, important and negative from the utility", () => {
+    expect(parseClass("md:hover:!-mt-4")).toMatchObject({ variants: ["md", "hover"], important: true, negative: true, utility: "mt-4" })
+  })
+
+  it("does not split on colons inside arbitrary values", () => {
+    expect(parseClass("bg-[url(a:b)]")).toMatchObject({ variants: [], utility: "bg-[url(a:b)]" })
+  })
+
+  it("accepts the trailing important of Tailwind v4", () => {
+    expect(parseClass("p-4!")).toMatchObject({ important: true, utility: "p-4" })
+  })
+})
+
+describe("splitClassList", () => {
+  it("keeps each token's offset in the scanned string", () => {
+    expect(splitClassList("  p-4 \n text-sm").map(({ raw, offset }) => [raw, offset])).toEqual([
+      ["p-4", 2],
+      ["text-sm", 8],
+    ])
+  })
+})
+
+describe("splitUtility", () => {
+  it("takes the longest matching prefix", () => {
+    expect(splitUtility("space-y-4", ["space", "space-y"])).toEqual(["space-y", "4"])
+    expect(splitUtility("px-4", ["p"])).toBeUndefined()
+  })
+})
+
+describe("spacingToPx", () => {
+  it.each([
+    ["6", 24],
+    ["0.5", 2],
+    ["px", 1],
+    ["[25px]", 25],
+    ["[1.5rem]", 24],
+    ["full", undefined],
+    ["[50%]", undefined],
+  ])("%s → %s", (value, px) => {
+    expect(spacingToPx(value)).toBe(px)
+  })
+})
+
+describe("colors", () => {
+  it("recognizes palette and arbitrary colors through opacity modifiers", () => {
+    expect(stripOpacity("blue-500/50")).toBe("blue-500")
+    expect(isPaletteColor("blue-500/[0.3]")).toBe(true)
+    expect(isPaletteColor("primary")).toBe(false)
+    expect(isArbitraryColor("[#fff]/50")).toBe(true)
+    expect(isArbitraryColor("[12px]")).toBe(false)
+  })
+})
@@ -0,0 +1,176 @@
+// Tailwind class token parsing. Only the vocabulary lives here (what `text-4xl`
+// or `font-light` mean); whether a value is allowed comes from the config.
+
+export interface ClassToken {
+  raw: string
+  /** Offset of the token inside the scanned string */
+  offset: number
+  variants: string[]
+  important: boolean
+  negative: boolean
+  /** Utility without variants, `!` or leading `-`, e.g. `p-[25px]` */
+  utility: string
+}
+
+/** Tailwind v4 spacing step: `--spacing: 0.25rem` */
+export const SPACING_STEP_PX = 4
+
+/** Font size names as defined by the playbook @theme */
+export const TEXT_SIZES: Record<string, number> = {
+  xs: 12,
+  sm: 14,
+  base: 16,
+  lg: 18,
+  xl: 20,
+  "2xl": 24,
+  "3xl": 32,
+  "4xl": 40,
+  "5xl": 48,
+  "6xl": 60,
+  "7xl": 72,
+  "8xl": 96,
+  "9xl": 128,
+}
+
+/**
+ * Line height in px the generated theme pairs with a font size, since its
+ * `--text-*: initial` drops Tailwind's: 1.4× for body sizes and 1.2× from
+ * 24px up, rounded to the 4px step
+ */
+export function lineHeightFor(px: number): number {
+  const ratio = px < 24 ? 1.4 : 1.2
+  return Math.round((px * ratio) / SPACING_STEP_PX) * SPACING_STEP_PX
+}
+
+export const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  normal: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+}
+
+export const FONT_FAMILIES = ["sans", "serif", "mono"]
+
+export const PALETTE_COLORS = [
+  "slate", "gray", "zinc", "neutral", "stone", "red", "orange", "amber", "yellow", "lime", "green",
+  "emerald", "teal", "cyan", "sky", "blue", "indigo", "violet", "purple", "fuchsia", "pink", "rose",
+]
+
+export const PALETTE_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]
+
+/** Color values that carry no brand meaning and are always allowed */
+export const NEUTRAL_COLOR_KEYWORDS = ["transparent", "current", "inherit"]
+
+export const SPACING_PREFIXES = [
+  "p", "px", "py", "pt", "pr", "pb", "pl", "ps", "pe",
+  "m", "mx", "my", "mt", "mr", "mb", "ml", "ms", "me",
+  "gap", "gap-x", "gap-y", "space-x", "space-y",
+]
+
+export const COLOR_PREFIXES = [
+  "bg", "text", "border", "border-x", "border-y", "border-t", "border-r", "border-b", "border-l",
+  "ring", "ring-offset", "outline", "divide", "fill", "stroke", "from", "via", "to",
+  "placeholder", "decoration", "caret", "accent",
+]
+
+/** Splits on `sep` outside of `[...]` and `(...)` */
+function splitTopLevel(value: string, sep: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    if (char === "[" || char === "(") depth++
+    else if (char === "]" || char === ")") depth--
+    else if (char === sep && depth === 0) {
+      parts.push(value.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(value.slice(start))
+  return parts
+}
+
+export function parseClass(raw: string, offset = 0): ClassToken {
+  const parts = splitTopLevel(raw, ":")
+  let utility = parts.pop() ?? ""
+  let important = false
+  if (utility.startsWith("!")) {
+    important = true
+    utility = utility.slice(1)
+  } else if (utility.endsWith("!")) {
+    important = true
+    utility = utility.slice(0, -1)
+  }
+  const negative = utility.startsWith("-")
+  if (negative) utility = utility.slice(1)
+  return { raw, offset, variants: parts, important, negative, utility }
+}
+
+export function splitClassList(text: string): ClassToken[] {
+  const tokens: ClassToken[] = []
+  const pattern = /\S+/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    tokens.push(parseClass(match[0], match.index))
+  }
+  return tokens
+}
+
+/**
+ * Splits a utility into its longest known prefix and value:
+ * `space-y-4` → `["space-y", "4"]`, `p-[25px]` → `["p", "[25px]"]`.
+ */
+export function splitUtility(utility: string, prefixes: string[]): [string, string] | undefined {
+  let best: string | undefined
+  for (const prefix of prefixes) {
+    if (utility.startsWith(`${prefix}-`) && (!best || prefix.length > best.length)) best = prefix
+  }
+  return best ? [best, utility.slice(best.length + 1)] : undefined
+}
+
+/** Inner value of an arbitrary value, `[25px]` → `25px` */
+export function arbitraryValue(value: string): string | undefined {
+  return value.startsWith("[") && value.endsWith("]") ? value.slice(1, -1) : undefined
+}
+
+/** Resolves a spacing value (`6`, `0.5`, `[25px]`, `[1.5rem]`) to px */
+export function spacingToPx(value: string): number | undefined {
+  const arbitrary = arbitraryValue(value)
+  if (arbitrary !== undefined) {
+    const match = /^(-?\d*\.?\d+)(px|rem)$/.exec(arbitrary)
+    if (!match) return undefined
+    return match[2] === "rem" ? Number(match[1]) * 16 : Number(match[1])
+  }
+  if (value === "px") return 1
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * SPACING_STEP_PX
+  return undefined
+}
+
+/** Formats px as a Tailwind spacing value, `24` → `6` */
+export function pxToSpacing(px: number): string {
+  return String(px / SPACING_STEP_PX)
+}
+
+/** Drops an opacity modifier, `blue-500/50` → `blue-500` */
+export function stripOpacity(value: string): string {
+  return value.replace(/\/(\d+|\[[^\]]*\])$/, "")
+}
+
+export function isPaletteColor(value: string): boolean {
+  const base = stripOpacity(value)
+  if (base === "white" || base === "black") return true
+  const match = /^([a-z]+)-(\d+)$/.exec(base)
+  return !!match && PALETTE_COLORS.includes(match[1]) && PALETTE_SHADES.includes(Number(match[2]))
+}
+
+export function isArbitraryColor(value: string): boolean {
+  const inner = arbitraryValue(stripOpacity(value))
+  if (inner === undefined) return false
+  return /^(#|rgb|hsl|oklch|oklab|lab|lch|hwb|color\()/i.test(inner.replace(/^color:/, ""))
+}
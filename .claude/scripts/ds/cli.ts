@@ -0,0 +1,89 @@
+// Design System CLI Tool
+// Usage: npx tsx .claude/scripts/ds/cli.ts <command> [options]
+
+import { auto } from "./commands/auto"
+import { check } from "./commands/check"
+import { consult } from "./commands/consult"
+import { contrast } from "./commands/contrast"
+import { init } from "./commands/init"
+import { preCommit } from "./commands/pre-commit"
+import { rollback } from "./commands/rollback"
+import { tokens } from "./commands/tokens"
+import { upgrade } from "./commands/upgrade"
+import { validate } from "./commands/validate"
+import { watch } from "./commands/watch"
+
+type Command = (argv: string[]) => number | Promise<number>
+
+const COMMANDS: Record<string, Command> = {
+  check,
+  watch,
+  "pre-commit": preCommit,
+  auto,
+  tokens,
+  contrast,
+  validate,
+  consult,
+  init,
+  upgrade,
+  rollback,
+}
+
+const USAGE = `Design System CLI Tool
+Usage:
+  ds check [paths...]   - Run compliance check
+      --format, -f      stylish (default), json or sarif
+      --output, -o      write the report to a file
+      --update-baseline record current violations in .design-baseline.json
+  ds watch [paths...]   - Re-check changed files and their importers live
+  ds pre-commit         - Check staged files (exit 1 blocks the commit)
+      --install         install as .git/hooks/pre-commit
+      --force           replace an existing hook
+  ds auto [paths...]    - Fix common violations in place
+      --dry-run, -n     print a unified diff instead of writing
+      --rule, -r        only apply this rule's fixes (repeatable)
+  ds tokens             - Generate globals.css, tokens.ts, DTCG JSON and DS components
+      --check           fail if the generated files are stale
+  ds contrast           - Audit theme color contrast in light and dark mode
+      --format, -f      markdown (default) or json
+      --output, -o      write the report to a file
+      --algorithm, -a   wcag (default) or apca
+  ds validate           - Validate design-config.json and system-config.json
+  ds consult "<activation> <question>"
+                        - Consult the AI personas and write an ADR
+      --provider, -p    stub (default) or a module exporting a provider
+      --verdict         stub only: Persona=approve|concerns|reject|block (repeatable)
+      --output, -o      ADR directory (default docs/adr)
+      --date            decision date, YYYY-MM-DD (default today)
+      --dry-run, -n     print the ADR instead of writing it
+  ds init [projects...] - Install the playbook into projects (run from the playbook checkout)
+      --dry-run, -n     list the changes without writing
+      --install         also npm install missing packages and add shadcn/ui components
+  ds upgrade [projects...]
+                        - Bring installed projects up to this checkout, merging local token CSS edits
+      --dry-run, -n     list the changes without writing
+      --install         also npm install missing packages and add shadcn/ui components
+  ds rollback [projects...] [--to <version>|<backup>]
+                        - Restore an installed version or a backup; lists both without --to
+      --to, -t          the version or backup to restore
+      --dry-run, -n     list the changes without writing`
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv
+  const command = name ? COMMANDS[name] : undefined
+  if (!command) {
+    console.log(USAGE)
+    return name && name !== "help" ? 1 : 0
+  }
+  return command(rest)
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error: Error) => {
+    console.error(`❌ Error: ${error.message}`)
+    process.exitCode = 2
+  },
+)
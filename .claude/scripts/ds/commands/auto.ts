@@ -0,0 +1,70 @@
+// ds auto [paths...] [--dry-run] [--rule <id>]...
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { collectFiles } from "../check"
+import { FIXABLE_RULES } from "../check/rules"
+import { loadDesignSystem } from "../config"
+import { fixSource } from "../fix"
+import { unifiedDiff } from "../fix/diff"
+import { defaultTargets } from "./check"
+
+export function auto(argv: string[], cwd: string = process.cwd()): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "dry-run": { type: "boolean", short: "n", default: false },
+      rule: { type: "string", short: "r", multiple: true },
+    },
+  })
+
+  const { design, compliance } = loadDesignSystem(cwd)
+  const rules = values.rule?.length ? values.rule : design.autofix?.rules ?? []
+  const unknown = rules.filter((rule) => !FIXABLE_RULES.includes(rule))
+  if (unknown.length) {
+    throw new Error(`Not an autofixable rule: ${unknown.join(", ")}. Fixable rules: ${FIXABLE_RULES.join(", ")}`)
+  }
+  if (!rules.length) {
+    throw new Error("No autofix rules enabled. Pass --rule <id> or list them in design-config.json autofix.rules")
+  }
+
+  const dryRun = values["dry-run"]!
+  const files = collectFiles(positionals.length ? positionals : defaultTargets(cwd), cwd)
+  const perRule = new Map<string, number>()
+  let changedFiles = 0
+  let skipped = 0
+
+  for (const absolute of files) {
+    const file = path.relative(cwd, absolute) || absolute
+    const text = fs.readFileSync(absolute, "utf8")
+    const result = fixSource(file, text, compliance, rules)
+    skipped += result.skipped.length
+    if (!result.applied.length) continue
+
+    changedFiles++
+    for (const { violation } of result.applied) {
+      perRule.set(violation.ruleId, (perRule.get(violation.ruleId) ?? 0) + 1)
+    }
+    if (dryRun) {
+      console.log(unifiedDiff(file, text, result.output))
+    } else {
+      fs.writeFileSync(absolute, result.output)
+      console.log(`🔧 ${file}: ${result.applied.length} fix(es)`)
+    }
+  }
+
+  const total = [...perRule.values()].reduce((sum, count) => sum + count, 0)
+  if (!total) {
+    console.log("✅ Nothing to fix.")
+  } else {
+    const verb = dryRun ? "Would apply" : "Applied"
+    console.log(`${dryRun ? "" : "\n"}✅ ${verb} ${total} fix(es) in ${changedFiles} file(s):`)
+    for (const [rule, count] of perRule) console.log(`   ${rule}: ${count}`)
+  }
+  if (skipped) {
+    console.log(`⚠️  ${skipped} violation(s) need a manual fix. Run 'ds check' to list them.`)
+  }
+  return 0
+}
@@ -0,0 +1,88 @@
+// ds check [paths...] [--format stylish|json|sarif] [--output file] [--update-baseline]
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { checkFiles, collectFiles } from "../check"
+import { RULES } from "../check/rules"
+import {
+  BASELINE_FILE,
+  countBaseline,
+  createBaseline,
+  ratchet,
+  readBaseline,
+  writeBaseline,
+  type RatchetOutcome,
+} from "../check/baseline"
+import { loadDesignSystem, type DesignSystem } from "../config"
+import { auditContrast, contrastViolations, themePath, type AuditOptions } from "../contrast"
+import { format, isFormat, summarize } from "../report"
+import type { FileResult } from "../types"
+
+export const DEFAULT_TARGETS = ["src", "app", "components"]
+
+/** Falls back to the conventional source folders, or the whole project */
+export function defaultTargets(cwd: string): string[] {
+  const existing = DEFAULT_TARGETS.filter((dir) => fs.existsSync(path.join(cwd, dir)))
+  return existing.length ? existing : ["."]
+}
+
+/** Adds the contrast audit's `color/contrast` violations to the theme file's result */
+export function addContrastViolations(results: FileResult[], system: DesignSystem, cwd: string, options: AuditOptions = {}): void {
+  const audit = auditContrast(system, options)
+  const file = path.relative(cwd, path.resolve(system.root, audit.source)) || audit.source
+  const violations = contrastViolations(audit).map((violation) => ({ ...violation, file }))
+  const existing = results.find((result) => result.file === file)
+  if (!existing) {
+    if (violations.length) results.push({ file, violations })
+    return
+  }
+  existing.violations.push(...violations)
+  existing.violations.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/** Prints what the baseline hid or dropped; to stderr when stdout carries a machine-readable report */
+export function reportBaseline(outcome: RatchetOutcome, log: (message: string) => void = console.log): void {
+  if (outcome.fixed) log(`📉 ${outcome.fixed} baselined violation(s) fixed; ${BASELINE_FILE} shrank. Commit it to lock in the progress.`)
+  if (outcome.known) log(`📝 ${outcome.known} known violation(s) hidden by ${BASELINE_FILE}.`)
+}
+
+export function check(argv: string[], cwd: string = process.cwd()): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "stylish" },
+      output: { type: "string", short: "o" },
+      "update-baseline": { type: "boolean", default: false },
+    },
+  })
+  if (!isFormat(values.format!)) {
+    throw new Error(`Unknown format "${values.format}". Use stylish, json or sarif.`)
+  }
+
+  const system = loadDesignSystem(cwd)
+  const files = collectFiles(positionals.length ? positionals : defaultTargets(cwd), cwd)
+  let results = checkFiles(files, system.compliance, cwd)
+  // The theme is audited on full runs, or when the run includes its CSS
+  if (!positionals.length || files.includes(themePath(system))) addContrastViolations(results, system, cwd)
+
+  if (values["update-baseline"]) {
+    const baseline = createBaseline(results, system.root, cwd, readBaseline(system.root))
+    writeBaseline(system.root, baseline)
+    console.log(`📝 ${BASELINE_FILE} records ${countBaseline(baseline)} violation(s). Only new violations fail from now on.`)
+    return 0
+  }
+  const outcome = ratchet(system.root, results, cwd)
+  results = outcome.results
+  const report = format(results, values.format, RULES)
+
+  if (values.output) {
+    fs.writeFileSync(path.resolve(cwd, values.output), `${report}\n`)
+    console.log(format(results, "stylish", RULES))
+  } else {
+    console.log(report)
+  }
+  reportBaseline(outcome, values.output || values.format === "stylish" ? console.log : console.error)
+  return summarize(results).errors > 0 ? 1 : 0
+}
@@ -0,0 +1,53 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DESIGN_CONFIG_FILE, SYSTEM_CONFIG_FILE } from "../config"
+import { PLAYBOOK_ROOT } from "../fixtures/design-system"
+import { consult } from "./consult"
+
+let root: string
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "ds-consult-"))
+  for (const file of [DESIGN_CONFIG_FILE, SYSTEM_CONFIG_FILE]) {
+    fs.writeFileSync(path.join(root, file), JSON.stringify({ extends: path.join(PLAYBOOK_ROOT, file) }))
+  }
+  fs.mkdirSync(path.join(root, "packages/web"), { recursive: true })
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+const question = ["@ProductOwner + @ComplianceManager Track clicks?", "--date", "2026-01-02"]
+
+describe("ds consult", () => {
+  it("rejects a --verdict for a persona the config does not know", async () => {
+    await expect(consult([...question, "--verdict", "ComplianceManger=block"], root)).rejects.toThrow(
+      'Unknown persona in --verdict "ComplianceManger=block"',
+    )
+  })
+
+  it.each(["2026-02-30", "2026-2-3", "2026-01-02T12:00"])("rejects --date %s", async (date) => {
+    await expect(consult([question[0], "--date", date, "--dry-run"], root)).rejects.toThrow(`Invalid --date "${date}". Use YYYY-MM-DD.`)
+  })
+
+  it("matches --verdict personas like activations do", async () => {
+    expect(await consult([...question, "--verdict", "@compliancemanager=block", "--dry-run"], root)).toBe(1)
+  })
+
+  it("writes an explicit --output relative to the working directory", async () => {
+    const cwd = path.join(root, "packages/web")
+    await consult([...question, "--output", "decisions"], cwd)
+    expect(fs.readdirSync(path.join(cwd, "decisions"))).toHaveLength(1)
+    expect(fs.existsSync(path.join(root, "decisions"))).toBe(false)
+  })
+
+  it("writes to docs/adr at the project root by default", async () => {
+    await consult(question, path.join(root, "packages/web"))
+    expect(fs.readdirSync(path.join(root, "docs/adr"))).toHaveLength(1)
+  })
+})
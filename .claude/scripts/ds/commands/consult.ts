@@ -0,0 +1,68 @@
+// ds consult "<activation> <question>" [--provider stub|<module>] [--verdict Persona=verdict]
+//            [--output dir] [--date YYYY-MM-DD] [--dry-run]
+
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { loadDesignSystem } from "../config"
+import { consult as runConsultation, DEFAULT_ADR_DIRECTORY, loadProvider, personasOf, renderAdr, writeAdr } from "../consult"
+import type { Personas } from "../consult/activation"
+import { VERDICTS, type Verdict } from "../consult/types"
+
+function parseVerdicts(entries: string[], personas: Personas): Record<string, Verdict> {
+  const known = Object.keys(personas.experts)
+  return Object.fromEntries(
+    entries.map((entry) => {
+      const [name, verdict] = entry.split("=")
+      if (!name || !VERDICTS.includes(verdict as Verdict)) {
+        throw new Error(`Invalid --verdict "${entry}". Use Persona=${VERDICTS.join("|")}.`)
+      }
+      const persona = known.find((candidate) => candidate.toLowerCase() === name.replace(/^@/, "").toLowerCase())
+      if (!persona) throw new Error(`Unknown persona in --verdict "${entry}". Known: ${known.join(", ")}`)
+      return [persona, verdict as Verdict]
+    }),
+  )
+}
+
+export async function consult(argv: string[], cwd: string = process.cwd()): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      provider: { type: "string", short: "p", default: "stub" },
+      verdict: { type: "string", multiple: true, default: [] },
+      output: { type: "string", short: "o" },
+      date: { type: "string" },
+      "dry-run": { type: "boolean", short: "n", default: false },
+    },
+  })
+  const text = positionals.join(" ")
+  if (!text.trim()) throw new Error('Pass an activation and question, e.g. ds consult "🤝 @TeamConsult Should we ..."')
+  if (values.verdict!.length && values.provider !== "stub") throw new Error("--verdict only applies to the stub provider")
+  const date = values.date === undefined ? undefined : new Date(`${values.date}T00:00:00Z`)
+  // Date rolls 2026-02-30 over into March, so the day has to read back unchanged
+  if (date && !(/^\d{4}-\d{2}-\d{2}$/.test(values.date!) && !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === values.date)) {
+    throw new Error(`Invalid --date "${values.date}". Use YYYY-MM-DD.`)
+  }
+
+  const config = loadDesignSystem(cwd)
+  const personas = personasOf(config)
+  const provider = await loadProvider(values.provider!, personas, cwd, { verdicts: parseVerdicts(values.verdict!, personas) })
+  const consultation = await runConsultation(text, config, { provider, date })
+  const { resolution } = consultation
+
+  if (values["dry-run"]) {
+    console.log(renderAdr(consultation).trimEnd())
+  } else {
+    // An explicit --output is relative to where the command runs; the default lives at the project root
+    const directory = values.output ? path.resolve(cwd, values.output) : path.join(config.root, DEFAULT_ADR_DIRECTORY)
+    const file = writeAdr(consultation, directory)
+    console.log(`📝 ${path.relative(cwd, file)}`)
+  }
+  if (resolution.status === "blocked") {
+    console.log(`❌ Blocked by ${resolution.vetoedBy}'s veto.`)
+    return 1
+  }
+  const icon = resolution.status === "rejected" ? "⚠️ " : "✅"
+  console.log(`${icon} ${resolution.status} (decided by ${resolution.decidedBy}).`)
+  return 0
+}
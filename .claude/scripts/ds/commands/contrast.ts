@@ -0,0 +1,43 @@
+// ds contrast [--format markdown|json] [--output file] [--algorithm wcag|apca]
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { loadDesignSystem } from "../config"
+import { auditContrast, failures, isAlgorithm } from "../contrast"
+import { formatContrast, isContrastFormat } from "../contrast/report"
+
+export function contrast(argv: string[], cwd: string = process.cwd()): number {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      format: { type: "string", short: "f", default: "markdown" },
+      output: { type: "string", short: "o" },
+      algorithm: { type: "string", short: "a" },
+    },
+  })
+  if (!isContrastFormat(values.format!)) {
+    throw new Error(`Unknown format "${values.format}". Use markdown or json.`)
+  }
+  const { algorithm } = values
+  if (algorithm !== undefined && !isAlgorithm(algorithm)) {
+    throw new Error(`Unknown algorithm "${algorithm}". Use wcag or apca.`)
+  }
+
+  const audit = auditContrast(loadDesignSystem(cwd), { algorithm })
+  const report = formatContrast(audit, values.format)
+  const failing = failures(audit).length
+
+  if (values.output) {
+    fs.writeFileSync(path.resolve(cwd, values.output), values.format === "json" ? `${report}\n` : report)
+    console.log(`📝 ${values.output}`)
+    console.log(
+      failing
+        ? `❌ ${failing} color pair(s) below the contrast minimum.`
+        : `✅ All ${audit.pairs.length} color pairs meet the contrast minimums.`,
+    )
+  } else {
+    console.log(report.trimEnd())
+  }
+  return failing ? 1 : 0
+}
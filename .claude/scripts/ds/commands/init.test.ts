@@ -0,0 +1,46 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { BASELINE_FILE, readBaseline } from "../check/baseline"
+import { copyProject } from "../fixtures/projects"
+import { check } from "./check"
+import { init } from "./init"
+
+const roots: string[] = []
+
+function project(): string {
+  const root = copyProject("vite")
+  roots.push(root)
+  return root
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  for (const root of roots.splice(0)) fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe("ds init", () => {
+  it("baselines the shipped theme's contrast failures so a fresh install passes ds check", () => {
+    const root = project()
+    expect(init([root])).toBe(0)
+
+    const baseline = readBaseline(root)!
+    expect(baseline.files["src/design-system.css"].map(({ ruleId, source }) => `${ruleId} ${source}`)).toEqual([
+      "color/contrast accent on background (light)",
+      "color/contrast secondary on background (light)",
+    ])
+    expect(check([], root)).toBe(0)
+  })
+
+  it("leaves an existing baseline alone", () => {
+    const root = project()
+    const existing = `${JSON.stringify({ version: 1, files: {} }, null, 2)}\n`
+    fs.writeFileSync(path.join(root, BASELINE_FILE), existing)
+    expect(init([root])).toBe(0)
+    expect(fs.readFileSync(path.join(root, BASELINE_FILE), "utf8")).toBe(existing)
+  })
+})
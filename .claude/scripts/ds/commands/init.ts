@@ -0,0 +1,176 @@
+// ds init [projects...] [--dry-run] [--install]
+//
+// Installs the playbook into each project from this checkout: configs and
+// seeds placed for the detected framework and layout, the engine, generated
+// tokens and DS components, package scripts and the pre-commit hook. Safe to
+// re-run; a second run only changes what the playbook changed.
+//
+// The shipped brand colors fail contrast on the light background, so a first
+// install records those failures in the project's baseline: `ds check` and
+// the hook pass until the project picks its own colors.
+
+import { execFileSync } from "node:child_process"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { BASELINE_FILE, countBaseline, createBaseline, readBaseline, writeBaseline } from "../check/baseline"
+import { DESIGN_CONFIG_FILE, loadDesignSystem } from "../config"
+import { applyPlan, ENGINE_DIRECTORY, planInstall, PLAYBOOK_ROOT, STATE_DIRECTORY, type Action, type Change, type Plan } from "../install"
+import type { FileResult } from "../types"
+import { addContrastViolations } from "./check"
+import { preCommit } from "./pre-commit"
+
+const ICONS: Record<Action, string> = {
+  create: "✨",
+  update: "📝",
+  merge: "🔀",
+  conflict: "❌",
+  replace: "♻️ ",
+  keep: "⏭️ ",
+  unchanged: "  ",
+  delete: "🗑️ ",
+}
+
+/** One line per change that matters, engine files summed up per action; unchanged files are only counted */
+export function printChanges(changes: Change[]): void {
+  const line = (action: Action, file: string, note?: string) =>
+    console.log(`  ${ICONS[action]} ${action.padEnd(9)} ${file}${note ? ` (${note})` : ""}`)
+  const engine = new Map<Action, number>()
+  for (const change of changes) {
+    if (change.action === "unchanged" && !change.note) continue
+    if (change.path.startsWith(`${ENGINE_DIRECTORY}/`) && !change.note) {
+      engine.set(change.action, (engine.get(change.action) ?? 0) + 1)
+      continue
+    }
+    line(change.action, change.path, change.note)
+  }
+  for (const [action, count] of engine) line(action, `${ENGINE_DIRECTORY}/`, `${count} file${count === 1 ? "" : "s"}`)
+}
+
+const DONE: Record<Action, string> = {
+  create: "created",
+  update: "updated",
+  merge: "merged",
+  conflict: "with conflicts",
+  replace: "replaced",
+  keep: "kept",
+  unchanged: "unchanged",
+  delete: "deleted",
+}
+
+export function countChanges(changes: Change[]): string {
+  const counts = new Map<Action, number>()
+  for (const change of changes) counts.set(change.action, (counts.get(change.action) ?? 0) + 1)
+  return [...counts].map(([action, count]) => `${count} ${DONE[action]}`).join(", ")
+}
+
+function describe(plan: Plan): string {
+  const { framework, sourceDir, alias } = plan.project
+  const from = plan.previous && plan.previous.version !== plan.version ? `${plan.previous.version} → ` : ""
+  return `${framework}, sources in ${sourceDir || "."}/, ${alias}/ alias: ${from}${plan.version}`
+}
+
+function isGitRepository(root: string): boolean {
+  try {
+    execFileSync("git", ["rev-parse", "--git-dir"], { cwd: root, stdio: "ignore" })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function finishSetup(plan: Plan, install: boolean): void {
+  const { root } = plan.project
+  const { dependencies, devDependencies, components } = plan.missing
+  const steps = [
+    ...(dependencies.length ? [["npm", "install", ...dependencies]] : []),
+    ...(devDependencies.length ? [["npm", "install", "-D", ...devDependencies]] : []),
+    // shadcn runs through npx; nothing is installed globally
+    ...(components.length ? [["npx", "shadcn@latest", "add", ...components, "--yes"]] : []),
+  ]
+  if (!install) {
+    if (steps.length) console.log(`📦 Still missing; run in ${root} (or pass --install):`)
+    for (const step of steps) console.log(`   ${step.join(" ")}`)
+    return
+  }
+  for (const [command, ...args] of steps) {
+    console.log(`📦 ${command} ${args.join(" ")}`)
+    execFileSync(command, args, { cwd: root, stdio: "inherit" })
+  }
+}
+
+/** Baselines the installed theme's contrast failures, unless the project already has a baseline */
+function baselineContrast(root: string): void {
+  const system = loadDesignSystem(root)
+  if (readBaseline(system.root)) return
+  const results: FileResult[] = []
+  addContrastViolations(results, system, root)
+  if (!results.length) return
+  const baseline = createBaseline(results, system.root, root)
+  writeBaseline(system.root, baseline)
+  console.log(
+    `📝 ${BASELINE_FILE} records the theme's ${countBaseline(baseline)} contrast failure(s). ` +
+      `Fix them in ${DESIGN_CONFIG_FILE} and 'ds check' drops them.`,
+  )
+}
+
+function installProject(root: string, requireInstalled: boolean, options: { dryRun: boolean; install: boolean }): number {
+  const plan = planInstall(PLAYBOOK_ROOT, root)
+  if (requireInstalled && !plan.previous) throw new Error(`Not installed yet (no ${STATE_DIRECTORY}/manifest.json). Run 'ds init' first.`)
+  console.log(`📦 ${root} (${describe(plan)})`)
+  printChanges(plan.changes)
+  const conflicts = plan.changes.filter((change) => change.action === "conflict").length
+
+  if (options.dryRun) {
+    console.log(`📝 Dry run: ${countChanges(plan.changes)}. Nothing was written.`)
+    finishSetup(plan, false)
+    return conflicts ? 1 : 0
+  }
+
+  const { backup } = applyPlan(plan, PLAYBOOK_ROOT)
+  console.log(`${conflicts ? "⚠️ " : "✅"} ${plan.version} installed: ${countChanges(plan.changes)}.`)
+  if (backup) console.log(`💾 Previous files backed up; 'ds rollback ${root} --to ${backup}' restores them.`)
+  if (!plan.previous) {
+    try {
+      baselineContrast(root)
+    } catch (error) {
+      console.log(`⚠️  Skipped the contrast baseline: ${(error as Error).message}`)
+    }
+  }
+  if (isGitRepository(root)) {
+    try {
+      preCommit(["--install"], root)
+    } catch (error) {
+      console.log(`⚠️  Skipped the pre-commit hook: ${(error as Error).message}`)
+    }
+  }
+  finishSetup(plan, options.install)
+  return conflicts ? 1 : 0
+}
+
+/** Shared by `ds init` and `ds upgrade`; every project is attempted even when one fails */
+export function runInstall(argv: string[], cwd: string, requireInstalled: boolean): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "dry-run": { type: "boolean", short: "n", default: false },
+      install: { type: "boolean", default: false },
+    },
+  })
+  const projects = (positionals.length ? positionals : ["."]).map((project) => path.resolve(cwd, project))
+  let status = 0
+  for (const root of projects) {
+    try {
+      status = Math.max(status, installProject(root, requireInstalled, { dryRun: values["dry-run"]!, install: values.install! }))
+    } catch (error) {
+      if (projects.length === 1) throw error
+      console.log(`❌ ${root}: ${(error as Error).message}`)
+      status = 2
+    }
+  }
+  return status
+}
+
+export function init(argv: string[], cwd: string = process.cwd()): number {
+  return runInstall(argv, cwd, false)
+}
@@ -0,0 +1,81 @@
+import { execFileSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { checkSource } from "../check"
+import { BASELINE_FILE, createBaseline, writeBaseline } from "../check/baseline"
+import { DESIGN_CONFIG_FILE, loadDesignSystem } from "../config"
+import { loadFixtureSystem, PLAYBOOK_ROOT } from "../fixtures/design-system"
+import { compileTokens } from "../tokens/compile"
+import { preCommit } from "./pre-commit"
+
+let root: string
+let log: ReturnType<typeof vi.spyOn>
+
+const git = (...args: string[]) =>
+  execFileSync("git", ["-c", "user.name=ds", "-c", "user.email=ds@example.com", ...args], { cwd: root, encoding: "utf8" })
+const write = (file: string, contents: string) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), contents)
+}
+const printed = () => log.mock.calls.map((call) => String(call[0])).join("\n")
+
+/** The generated theme CSS, with the shipped palette or one whose brand colors all pass */
+function theme(passing: boolean): string {
+  const brandColors = passing ? { secondary: { hex: "#00A774" }, accent: { hex: "#CC8200" } } : {}
+  return compileTokens(loadFixtureSystem({ branding: { brandColors } })).find((file) => file.kind === "css")!.contents
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "ds-pre-commit-"))
+  git("init", "-q")
+  write(DESIGN_CONFIG_FILE, JSON.stringify({ extends: path.join(PLAYBOOK_ROOT, DESIGN_CONFIG_FILE) }))
+  log = vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe("ds pre-commit", () => {
+  it("audits the staged theme, not the working tree copy", () => {
+    write("src/globals.css", theme(true))
+    git("add", "-A")
+    write("src/globals.css", theme(false))
+    expect(preCommit([], root)).toBe(0)
+
+    write("src/globals.css", theme(false))
+    git("add", "-A")
+    write("src/globals.css", theme(true))
+    expect(preCommit([], root)).toBe(1)
+    expect(printed()).toContain("color/contrast")
+  })
+
+  it("hides baselined violations without rewriting the baseline", () => {
+    const page = `export const Page = () => <div className="p-[13px] m-[13px]" />\n`
+    write("src/page.tsx", page)
+    const system = loadDesignSystem(root)
+    writeBaseline(root, createBaseline([{ file: "src/page.tsx", violations: checkSource("src/page.tsx", page, system.compliance) }], root, root))
+    git("add", "-A")
+    git("commit", "-q", "-m", "baseline")
+    const baseline = fs.readFileSync(path.join(root, BASELINE_FILE), "utf8")
+
+    write("src/page.tsx", `export const Page = () => <div className="p-[13px]" />\n`)
+    git("add", "-A")
+    expect(preCommit([], root)).toBe(0)
+    expect(printed()).toContain(`1 baselined violation(s) fixed. Run 'ds check' to shrink ${BASELINE_FILE}, then commit it.`)
+    expect(fs.readFileSync(path.join(root, BASELINE_FILE), "utf8")).toBe(baseline)
+    expect(git("status", "--porcelain")).toBe("M  src/page.tsx\n")
+  })
+
+  it("ignores a baseline that is not staged", () => {
+    const page = `export const Page = () => <div className="p-[13px]" />\n`
+    write("src/page.tsx", page)
+    git("add", "-A")
+    const system = loadDesignSystem(root)
+    writeBaseline(root, createBaseline([{ file: "src/page.tsx", violations: checkSource("src/page.tsx", page, system.compliance) }], root, root))
+    expect(preCommit([], root)).toBe(1)
+  })
+})
@@ -0,0 +1,118 @@
+// ds pre-commit [--install [--force]]
+//
+// Checks the staged contents of staged files, so a commit is judged by exactly
+// what it records: the config, theme and baseline come from the index too.
+// Installs itself as a plain git hook; no hook manager needed.
+
+import { execFileSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { checkSource, IGNORED_DIRECTORIES, SOURCE_EXTENSIONS } from "../check"
+import { applyBaseline, BASELINE_FILE, readBaseline } from "../check/baseline"
+import { RULES } from "../check/rules"
+import { DESIGN_CONFIG_FILE, loadDesignSystem, readFromDisk, SYSTEM_CONFIG_FILE, type FileReader } from "../config"
+import { themePath } from "../contrast"
+import { format, summarize } from "../report"
+import type { FileResult } from "../types"
+import { addContrastViolations } from "./check"
+
+const HOOK_MARKER = "# ds pre-commit hook"
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, encoding: "utf8", maxBuffer: 64 * 1024 * 1024, stdio: ["ignore", "pipe", "pipe"] })
+}
+
+/** Staged contents of files in the repository; an `extends` base outside it is read from disk */
+function readStaged(top: string): FileReader {
+  return (file) => {
+    const relative = path.relative(top, file)
+    if (relative.startsWith("..") || path.isAbsolute(relative)) return readFromDisk(file)
+    try {
+      return git(["show", `:${relative.split(path.sep).join("/")}`], top)
+    } catch {
+      // Not in the index
+      return undefined
+    }
+  }
+}
+
+function isCheckable(file: string): boolean {
+  const segments = file.split("/")
+  return (
+    SOURCE_EXTENSIONS.includes(path.extname(file)) &&
+    !file.endsWith(".d.ts") &&
+    !segments.some((segment) => IGNORED_DIRECTORIES.includes(segment))
+  )
+}
+
+/** Writes `.git/hooks/pre-commit` (or the core.hooksPath equivalent) */
+function install(cwd: string, force: boolean): number {
+  const system = loadDesignSystem(cwd)
+  const top = git(["rev-parse", "--show-toplevel"], cwd).trim()
+  const hooks = path.resolve(cwd, git(["rev-parse", "--git-path", "hooks"], cwd).trim())
+  const hook = path.join(hooks, "pre-commit")
+
+  if (fs.existsSync(hook) && !fs.readFileSync(hook, "utf8").includes(HOOK_MARKER) && !force) {
+    throw new Error(`${path.relative(cwd, hook)} already exists. Re-run with --force to replace it, or call 'ds pre-commit' from it.`)
+  }
+  const project = path.relative(top, system.root).split(path.sep).join("/") || "."
+  const script = [
+    "#!/bin/sh",
+    HOOK_MARKER,
+    "# Blocks commits that add design system violations. Bypass with git commit --no-verify.",
+    `cd "$(git rev-parse --show-toplevel)/${project}" || exit 1`,
+    "exec npx tsx .claude/scripts/ds/cli.ts pre-commit",
+    "",
+  ].join("\n")
+  fs.mkdirSync(hooks, { recursive: true })
+  fs.writeFileSync(hook, script, { mode: 0o755 })
+  console.log(`✅ Installed ${path.relative(cwd, hook)}`)
+  return 0
+}
+
+export function preCommit(argv: string[], cwd: string = process.cwd()): number {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      install: { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+    },
+  })
+  if (values.install) return install(cwd, values.force!)
+
+  const top = git(["rev-parse", "--show-toplevel"], cwd).trim()
+  const read = readStaged(top)
+  const system = loadDesignSystem(cwd, read)
+  const staged = git(["diff", "--cached", "--name-only", "--diff-filter=ACMR", "-z"], top)
+    .split("\0")
+    .filter(Boolean)
+    .filter((file) => !path.relative(system.root, path.join(top, file)).startsWith(".."))
+
+  const results: FileResult[] = staged.filter(isCheckable).map((file) => {
+    const display = path.relative(cwd, path.join(top, file)) || file
+    return { file: display, violations: checkSource(display, read(path.join(top, file))!, system.compliance) }
+  })
+
+  const theme = themePath(system)
+  const touchesTheme = staged.some((file) =>
+    [theme, path.join(system.root, DESIGN_CONFIG_FILE), path.join(system.root, SYSTEM_CONFIG_FILE)].includes(path.join(top, file)),
+  )
+  if (touchesTheme) addContrastViolations(results, system, cwd, { read })
+
+  if (!results.length) {
+    console.log("✅ No staged files to check.")
+    return 0
+  }
+  // The baseline is only read here: shrinking it now would leave the commit with the old one
+  const baseline = readBaseline(system.root, read)
+  const outcome = baseline ? applyBaseline(baseline, results, system.root, cwd) : { results, known: 0, fixed: 0 }
+  console.log(format(outcome.results, "stylish", RULES))
+  if (outcome.fixed) console.log(`📉 ${outcome.fixed} baselined violation(s) fixed. Run 'ds check' to shrink ${BASELINE_FILE}, then commit it.`)
+  if (outcome.known) console.log(`📝 ${outcome.known} known violation(s) hidden by ${BASELINE_FILE}.`)
+  if (summarize(outcome.results).errors > 0) {
+    console.log("❌ Commit blocked by design system violations. Fix them with 'ds auto', or bypass with git commit --no-verify.")
+    return 1
+  }
+  return 0
+}
@@ -0,0 +1,55 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { copyProject } from "../fixtures/projects"
+import { applyPlan, planInstall, PLAYBOOK_ROOT } from "../install"
+import { rollback } from "./rollback"
+
+const roots: string[] = []
+let log: ReturnType<typeof vi.spyOn>
+
+function installed(): { root: string; backup: string } {
+  const root = copyProject("next-pages")
+  roots.push(root)
+  return { root, backup: applyPlan(planInstall(PLAYBOOK_ROOT, root), PLAYBOOK_ROOT).backup! }
+}
+
+beforeEach(() => {
+  log = vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  for (const root of roots.splice(0)) fs.rmSync(root, { recursive: true, force: true })
+})
+
+const printed = () => log.mock.calls.map((call) => String(call[0])).join("\n")
+
+describe("ds rollback", () => {
+  it("lists versions and backups of a project given as the only argument", () => {
+    const { root, backup } = installed()
+    expect(rollback([root])).toBe(0)
+    expect(printed()).toContain(`Backups:  ${backup}`)
+    expect(fs.existsSync(path.join(root, "components.json"))).toBe(true)
+  })
+
+  it("restores the --to target in each project", () => {
+    const { root, backup } = installed()
+    expect(rollback([path.basename(root), "--to", backup], path.dirname(root))).toBe(0)
+    expect(fs.existsSync(path.join(root, "components.json"))).toBe(false)
+  })
+
+  it("keeps going past projects that fail", () => {
+    const never = copyProject("vite")
+    roots.push(never)
+    const { root, backup } = installed()
+    expect(rollback([never, root, "--to", backup])).toBe(2)
+    expect(printed()).toContain(`❌ ${never}: No version or backup "${backup}"`)
+    expect(fs.existsSync(path.join(root, "components.json"))).toBe(false)
+  })
+
+  it("throws for a single failing project", () => {
+    const { root } = installed()
+    expect(() => rollback([root, "--to", "0.9.0"])).toThrow('No version or backup "0.9.0"')
+  })
+})
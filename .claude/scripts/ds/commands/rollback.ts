@@ -0,0 +1,63 @@
+// ds rollback [projects...] [--to <version>|<backup>] [--dry-run]
+//
+// Restores the files an earlier playbook version installed, or the files a
+// backup holds. The current files are backed up first, so a rollback can be
+// rolled back too. Without --to, lists what can be restored.
+
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { applyRollback, planRollback, STATE_DIRECTORY } from "../install"
+import { openState } from "../install/state"
+import { countChanges, printChanges } from "./init"
+
+function list(root: string): void {
+  const state = openState(root)
+  const current = state.manifest()?.version
+  const versions = state.versions().map((version) => (version === current ? `${version} (current)` : version))
+  console.log(`📦 ${root}`)
+  console.log(`  Versions: ${versions.join(", ") || "none"}`)
+  console.log(`  Backups:  ${state.backups().join(", ") || "none"}`)
+}
+
+function restore(root: string, target: string, dryRun: boolean): void {
+  const plan = planRollback(root, target)
+  console.log(`📦 ${root} (rollback to ${target})`)
+  printChanges(plan.changes)
+  if (dryRun) {
+    console.log(`📝 Dry run: ${countChanges(plan.changes)}. Nothing was written.`)
+    return
+  }
+  const backup = applyRollback(root, plan)
+  console.log(`✅ Rolled back to ${target}: ${countChanges(plan.changes)}.`)
+  if (backup) console.log(`💾 Previous files backed up; 'ds rollback ${root} --to ${backup}' restores them.`)
+  if (!plan.manifest) console.log(`⚠️  No install is on record any more; ${STATE_DIRECTORY}/ only holds backups.`)
+}
+
+/** Every project is attempted even when one fails, as with `ds upgrade` */
+export function rollback(argv: string[], cwd: string = process.cwd()): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      to: { type: "string", short: "t" },
+      "dry-run": { type: "boolean", short: "n", default: false },
+    },
+  })
+  const projects = (positionals.length ? positionals : ["."]).map((project) => path.resolve(cwd, project))
+  if (!values.to) {
+    projects.forEach(list)
+    return 0
+  }
+
+  let status = 0
+  for (const root of projects) {
+    try {
+      restore(root, values.to, values["dry-run"]!)
+    } catch (error) {
+      if (projects.length === 1) throw error
+      console.log(`❌ ${root}: ${(error as Error).message}`)
+      status = 2
+    }
+  }
+  return status
+}
@@ -0,0 +1,43 @@
+// ds tokens [--check]
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { loadDesignSystem } from "../config"
+import { compileTokens } from "../tokens/compile"
+import { compileComponents } from "../tokens/components"
+
+export function tokens(argv: string[], cwd: string = process.cwd()): number {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      check: { type: "boolean", default: false },
+    },
+  })
+
+  const config = loadDesignSystem(cwd)
+  const files = [...compileTokens(config), ...compileComponents(config)]
+
+  if (values.check) {
+    const stale = files.filter((file) => {
+      const target = path.resolve(config.root, file.path)
+      return !fs.existsSync(target) || fs.readFileSync(target, "utf8") !== file.contents
+    })
+    if (!stale.length) {
+      console.log("✅ Generated token files are up to date with design-config.json.")
+      return 0
+    }
+    for (const file of stale) console.log(`❌ ${file.path} is stale`)
+    console.log("Run 'npm run design:tokens' and commit the result.")
+    return 1
+  }
+
+  for (const file of files) {
+    const target = path.resolve(config.root, file.path)
+    fs.mkdirSync(path.dirname(target), { recursive: true })
+    fs.writeFileSync(target, file.contents)
+    console.log(`📝 ${file.path}`)
+  }
+  console.log("✅ Design tokens and DS components generated from design-config.json.")
+  return 0
+}
@@ -0,0 +1,11 @@
+// ds upgrade [projects...] [--dry-run] [--install]
+//
+// Brings installed projects up to this checkout, e.g. every project at once
+// with `ds upgrade ../*/`. Playbook files are replaced, seeds follow only
+// where nobody edited them, and local edits to the token CSS are merged in.
+
+import { runInstall } from "./init"
+
+export function upgrade(argv: string[], cwd: string = process.cwd()): number {
+  return runInstall(argv, cwd, true)
+}
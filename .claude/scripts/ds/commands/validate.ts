@@ -0,0 +1,22 @@
+// ds validate
+
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { DesignSystemError, formatIssue, loadDesignSystem } from "../config"
+
+export function validate(argv: string[], cwd: string = process.cwd()): number {
+  parseArgs({ args: argv, options: {} })
+
+  try {
+    const system = loadDesignSystem(cwd)
+    for (const warning of system.warnings) console.log(`⚠️ ${formatIssue(warning).trim()}`)
+    const sources = system.sources.map((file) => path.relative(system.root, file) || file)
+    console.log(`✅ Design system configuration is valid (${sources.join(", ")}).`)
+    return 0
+  } catch (error) {
+    if (!(error instanceof DesignSystemError)) throw error
+    for (const issue of error.issues) console.log(`❌ ${formatIssue(issue).trim()}`)
+    console.log(`${error.issues.length} configuration error${error.issues.length === 1 ? "" : "s"}.`)
+    return 1
+  }
+}
@@ -0,0 +1,146 @@
+// ds watch [paths...]
+//
+// Keeps every file's result cached and, on each change, re-checks only the
+// changed files and the files that import them. The terminal shows a live
+// summary; the baseline hides known violations but is never rewritten here.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseArgs } from "node:util"
+import { collectFiles, IGNORED_DIRECTORIES, SOURCE_EXTENSIONS } from "../check"
+import { applyBaseline, BASELINE_FILE, readBaseline, type Baseline } from "../check/baseline"
+import { createCheckCache, type CheckCache } from "../check/cache"
+import { RULES } from "../check/rules"
+import { DESIGN_CONFIG_FILE, loadDesignSystem, SYSTEM_CONFIG_FILE, type DesignSystem } from "../config"
+import { themePath } from "../contrast"
+import { format } from "../report"
+import type { FileResult } from "../types"
+import { addContrastViolations, defaultTargets } from "./check"
+
+const DEBOUNCE_MS = 50
+
+function isWatched(file: string): boolean {
+  return (
+    SOURCE_EXTENSIONS.includes(path.extname(file)) &&
+    !file.endsWith(".d.ts") &&
+    !file.split(path.sep).some((segment) => IGNORED_DIRECTORIES.includes(segment))
+  )
+}
+
+export function watch(argv: string[], cwd: string = process.cwd()): Promise<number> {
+  const { positionals } = parseArgs({ args: argv, allowPositionals: true, options: {} })
+  const targets = (positionals.length ? positionals : defaultTargets(cwd)).map((target) => path.resolve(cwd, target))
+  const interactive = process.stdout.isTTY
+  const isTargeted = (file: string) => targets.some((target) => file === target || file.startsWith(`${target}${path.sep}`))
+
+  let system: DesignSystem
+  let cache: CheckCache
+  let baseline: Baseline | undefined
+  let configError: string | undefined
+  const results = new Map<string, FileResult>()
+
+  const render = (status: string) => {
+    if (interactive) process.stdout.write("\x1b[2J\x1b[H")
+    if (configError) {
+      console.log(`❌ Error: ${configError}\n`)
+    } else {
+      // Copies, since the contrast audit adds to the theme file's cached result
+      const current = [...results.values()].map((result) => ({ ...result, violations: [...result.violations] }))
+      // Contrast depends on the theme, not on any one file, so it is cheap to redo per render
+      if (!positionals.length || targets.some((target) => themePath(system).startsWith(target))) {
+        addContrastViolations(current, system, cwd)
+      }
+      const outcome = baseline ? applyBaseline(baseline, current, system.root, cwd) : undefined
+      console.log(format(outcome?.results ?? current, "stylish", RULES))
+      if (outcome?.known) console.log(`📝 ${outcome.known} known violation(s) hidden by ${BASELINE_FILE}.`)
+    }
+    console.log(`\n👁️  ${status}`)
+    console.log("Watching for changes. Press Ctrl+C to stop.")
+  }
+
+  /** (Re)loads the config and checks every file from scratch */
+  const reload = () => {
+    try {
+      system = loadDesignSystem(cwd)
+      baseline = readBaseline(system.root)
+      cache = createCheckCache(system.compliance, system.root, cwd)
+      configError = undefined
+    } catch (error) {
+      configError = (error as Error).message
+      return
+    }
+    results.clear()
+    for (const result of cache.check(collectFiles(targets, cwd))) results.set(path.resolve(cwd, result.file), result)
+  }
+
+  const pending = new Set<string>()
+  let timer: NodeJS.Timeout | undefined
+
+  const configFiles = () => {
+    const root = configError ? cwd : system.root
+    return [DESIGN_CONFIG_FILE, SYSTEM_CONFIG_FILE, BASELINE_FILE].map((name) => path.join(root, name))
+  }
+
+  const flush = () => {
+    timer = undefined
+    const changed = [...pending]
+    pending.clear()
+    const started = Date.now()
+
+    if (configError || changed.some((file) => configFiles().includes(file))) {
+      reload()
+      render(`Reloaded configuration in ${Date.now() - started}ms`)
+      return
+    }
+
+    // Changed files are checked inside the targets only; the files importing them always are
+    const affected = new Set<string>()
+    for (const file of changed.filter(isWatched)) {
+      for (const dependent of cache.graph.dependents(file)) affected.add(dependent)
+      if (!isTargeted(file)) continue
+      if (fs.existsSync(file)) {
+        affected.add(file)
+      } else {
+        results.delete(file)
+        cache.forget(file)
+      }
+    }
+    if (!affected.size && !changed.includes(themePath(system))) return
+
+    for (const file of affected) cache.invalidate(file)
+    for (const result of cache.check([...affected])) results.set(path.resolve(cwd, result.file), result)
+    const names = changed.filter(isWatched).map((file) => path.relative(cwd, file)).join(", ")
+    render(`${names} changed: re-checked ${cache.parsed} file(s) in ${Date.now() - started}ms`)
+  }
+
+  const queue = (file: string) => {
+    pending.add(file)
+    if (!timer) timer = setTimeout(flush, DEBOUNCE_MS)
+  }
+
+  reload()
+  render(configError ? "Waiting for a valid configuration" : `Checked ${results.size} file(s)`)
+
+  const watchers = targets.map((target) => {
+    const directory = fs.statSync(target).isDirectory()
+    return fs.watch(target, { recursive: directory }, (_event, name) => {
+      if (name) queue(directory ? path.join(target, name.toString()) : target)
+    })
+  })
+  // The config, baseline and theme can sit outside the targets; nothing else at the root is routed
+  const root = configError ? cwd : system!.root
+  watchers.push(
+    fs.watch(root, (_event, name) => {
+      const file = name && path.join(root, name.toString())
+      if (file && (configFiles().includes(file) || (!configError && file === themePath(system)))) queue(file)
+    }),
+  )
+
+  return new Promise((resolve) => {
+    process.once("SIGINT", () => {
+      for (const watcher of watchers) watcher.close()
+      if (timer) clearTimeout(timer)
+      resolve(0)
+    })
+  })
+}
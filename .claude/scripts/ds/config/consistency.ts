@@ -0,0 +1,120 @@
+// Cross-file rules a JSON Schema cannot express: every value has to sit on
+// the grid, and the two config files have to agree with each other. Font sizes
+// off the grid are warnings rather than errors, since the type scale the specs
+// ship keeps 14px and 18px.
+
+import { FIXABLE_RULES } from "../check/rules"
+import type { ConfigIssue, DesignConfig, SystemConfig } from "./types"
+
+const DESIGN = "design-config.json"
+const SYSTEM = "system-config.json"
+
+function pxValue(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)px$/.exec(value)
+  return match ? Number(match[1]) : undefined
+}
+
+export function checkConsistency(design: DesignConfig, system?: SystemConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  const error = (file: string, path: string, message: string) => issues.push({ severity: "error", file, path, message })
+  const warning = (file: string, path: string, message: string) => issues.push({ severity: "warning", file, path, message })
+
+  const unit = design.spacing.baseUnit
+  const foundation = system?.designSystem.core.foundation
+
+  design.spacing.scale.forEach((px, index) => {
+    if (px % unit !== 0) error(DESIGN, `/spacing/scale/${index}`, `${px}px is not a multiple of the ${unit}px base unit`)
+  })
+
+  const sizes = foundation?.typography.gridBasedSizes
+  for (const [level, value] of Object.entries(design.typography.hierarchy)) {
+    const px = pxValue(value)
+    if (px === undefined) continue
+    const at = `/typography/hierarchy/${level}`
+    if (px % unit !== 0) warning(DESIGN, at, `${value} is not a multiple of the ${unit}px base unit`)
+    if (sizes && !sizes.includes(px)) error(DESIGN, at, `${value} is not one of the gridBasedSizes in ${SYSTEM}`)
+    if (foundation && px > foundation.typography.maxSize) {
+      error(DESIGN, at, `${value} exceeds the ${foundation.typography.maxSize}px maxSize in ${SYSTEM}`)
+    }
+  }
+  if (design.typography.baseSize % unit !== 0) {
+    warning(DESIGN, "/typography/baseSize", `${design.typography.baseSize}px is not a multiple of the ${unit}px base unit`)
+  }
+
+  const layout = design.layout
+  const layoutValues: [string, string | undefined][] = [
+    ["/layout/maxWidth", layout?.maxWidth],
+    ["/layout/gridGap", layout?.gridGap],
+    ...Object.entries(layout?.containerPadding ?? {}).map(([key, value]): [string, string] => [`/layout/containerPadding/${key}`, value]),
+  ]
+  for (const [at, value] of layoutValues) {
+    const px = value === undefined ? undefined : pxValue(value)
+    if (px !== undefined && px % unit !== 0) error(DESIGN, at, `${value} is not a multiple of the ${unit}px base unit`)
+  }
+
+  const heights = design.components.heights ?? {}
+  for (const [component, list] of Object.entries(heights)) {
+    list.forEach((px, index) => {
+      if (px % unit !== 0) {
+        error(DESIGN, `/components/heights/${component}/${index}`, `${px}px is not a multiple of the ${unit}px base unit`)
+      }
+    })
+  }
+  const standard = design.components.standardHeight
+  if (standard !== undefined && !Object.values(heights).some((list) => list.includes(standard))) {
+    error(DESIGN, "/components/standardHeight", `${standard}px is not one of the component heights`)
+  }
+
+  const brand = Object.keys(design.branding.brandColors)
+  design.creative?.colorCombinations?.recommended?.forEach((combination, index) => {
+    combination.forEach((name, position) => {
+      if (!brand.includes(name)) {
+        error(DESIGN, `/creative/colorCombinations/recommended/${index}/${position}`, `"${name}" is not a brand color (${brand.join(", ")})`)
+      }
+    })
+  })
+
+  design.autofix?.rules?.forEach((rule, index) => {
+    if (!FIXABLE_RULES.includes(rule)) {
+      error(DESIGN, `/autofix/rules/${index}`, `"${rule}" is not autofixable (${FIXABLE_RULES.join(", ")})`)
+    }
+  })
+  const tokens = new Set([...brand, ...(design.branding.semanticTokens ?? [])])
+  for (const [from, to] of Object.entries(design.autofix?.colorMap ?? {})) {
+    const token = to.replace(/^(?:bg|text|border|ring)-/, "").replace(/-foreground$/, "")
+    if (!tokens.has(token)) warning(DESIGN, `/autofix/colorMap/${from}`, `"${to}" does not map to a defined color token`)
+  }
+
+  if (!foundation || !system) return issues
+
+  if (foundation.spacing.gridUnit % unit !== 0) {
+    error(SYSTEM, "/designSystem/core/foundation/spacing/gridUnit", `${foundation.spacing.gridUnit}px is not a multiple of the ${unit}px base unit in ${DESIGN}`)
+  }
+  foundation.typography.gridBasedSizes.forEach((px, index) => {
+    if (px % unit !== 0) {
+      warning(SYSTEM, `/designSystem/core/foundation/typography/gridBasedSizes/${index}`, `${px}px is not a multiple of the ${unit}px base unit in ${DESIGN}`)
+    }
+  })
+  if (foundation.typography.fontFamily !== design.typography.fontFamily) {
+    error(DESIGN, "/typography/fontFamily", `"${design.typography.fontFamily}" differs from "${foundation.typography.fontFamily}" in ${SYSTEM}`)
+  }
+  design.typography.weights.forEach((weight, index) => {
+    if (!foundation.typography.allowedWeights.includes(weight)) {
+      error(DESIGN, `/typography/weights/${index}`, `${weight} is not in allowedWeights (${foundation.typography.allowedWeights.join(", ")})`)
+    }
+  })
+
+  const personas = system.designSystem.aiPersonas
+  personas?.teamConsultation.members.forEach((member, index) => {
+    if (!personas.experts[member]) {
+      error(SYSTEM, `/designSystem/aiPersonas/teamConsultation/members/${index}`, `"${member}" has no entry in experts`)
+    }
+  })
+  for (const [name, expert] of Object.entries(personas?.experts ?? {})) {
+    if (expert.activation !== `@${name}`) {
+      warning(SYSTEM, `/designSystem/aiPersonas/experts/${name}/activation`, `expected "@${name}", got "${expert.activation}"`)
+    }
+  }
+
+  return issues
+}
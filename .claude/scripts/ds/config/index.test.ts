@@ -0,0 +1,99 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { afterEach, describe, expect, it } from "vitest"
+import { loadFixtureSystem, PLAYBOOK_ROOT } from "../fixtures/design-system"
+import { DESIGN_CONFIG_FILE, DesignSystemError, loadDesignSystem, mergeConfig, parsePx, SYSTEM_CONFIG_FILE } from "."
+
+const directories: string[] = []
+
+function project(files: Record<string, unknown>): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "ds-config-"))
+  directories.push(directory)
+  for (const [file, data] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true })
+    fs.writeFileSync(path.join(directory, file), JSON.stringify(data))
+  }
+  return directory
+}
+
+function issues(load: () => unknown): string[] {
+  try {
+    load()
+  } catch (error) {
+    if (error instanceof DesignSystemError) return error.issues.map((issue) => `${issue.file}#${issue.path}`)
+    throw error
+  }
+  return []
+}
+
+afterEach(() => {
+  for (const directory of directories.splice(0)) fs.rmSync(directory, { recursive: true, force: true })
+})
+
+describe("parsePx", () => {
+  it("reads px, rem and bare numbers", () => {
+    expect([parsePx("24px"), parsePx("1.5rem"), parsePx(8), parsePx("12"), parsePx("50%")]).toEqual([24, 24, 8, 12, undefined])
+  })
+})
+
+describe("mergeConfig", () => {
+  it("merges objects key by key and replaces arrays", () => {
+    expect(mergeConfig({ a: { b: 1, c: [1, 2] }, d: 1 }, { a: { c: [3] }, e: 2 })).toEqual({ a: { b: 1, c: [3] }, d: 1, e: 2 })
+  })
+})
+
+describe("loadDesignSystem", () => {
+  it("loads the playbook's own configs", () => {
+    const system = loadDesignSystem(PLAYBOOK_ROOT)
+    expect(system.compliance.fontFamily).toBe("Mulish")
+    expect(system.system).toBeDefined()
+  })
+
+  it("finds the config in a parent directory", () => {
+    const root = project({ [DESIGN_CONFIG_FILE]: { extends: path.join(PLAYBOOK_ROOT, DESIGN_CONFIG_FILE) } })
+    fs.mkdirSync(path.join(root, "src/components"), { recursive: true })
+    expect(loadDesignSystem(path.join(root, "src/components")).root).toBe(root)
+  })
+
+  it("layers overrides over the base it extends", () => {
+    const system = loadFixtureSystem({ components: { heights: { Button: [40, 48] } } })
+    expect(system.compliance.componentHeights).toEqual({ Button: [40, 48], Input: [40] })
+    expect(system.compliance.spacingScale).toContain(24)
+  })
+
+  it("reports schema and grid errors against the file that sets them", () => {
+    const root = project({
+      "base.json": { extends: path.join(PLAYBOOK_ROOT, DESIGN_CONFIG_FILE) },
+      [DESIGN_CONFIG_FILE]: { extends: "./base.json", spacing: { baseUnit: 4, scale: [4, 10] }, autofix: { rules: ["accessibility/keyboard"] } },
+    })
+    expect(issues(() => loadDesignSystem(root))).toEqual([
+      `${DESIGN_CONFIG_FILE}#/spacing/scale/1`,
+      `${DESIGN_CONFIG_FILE}#/autofix/rules/0`,
+    ])
+  })
+
+  it("checks the two files against each other", () => {
+    const system = JSON.parse(fs.readFileSync(path.join(PLAYBOOK_ROOT, SYSTEM_CONFIG_FILE), "utf8"))
+    system.designSystem.core.foundation.typography.fontFamily = "Inter"
+    const root = project({ [DESIGN_CONFIG_FILE]: { extends: path.join(PLAYBOOK_ROOT, DESIGN_CONFIG_FILE) }, [SYSTEM_CONFIG_FILE]: system })
+    // The base file sets the family, so the issue points there
+    const base = path.relative(root, path.join(PLAYBOOK_ROOT, DESIGN_CONFIG_FILE))
+    expect(issues(() => loadDesignSystem(root))).toEqual([`${base}#/typography/fontFamily`])
+  })
+
+  it("warns about font sizes off the grid", () => {
+    const system = loadDesignSystem(PLAYBOOK_ROOT)
+    expect(system.warnings.map((issue) => `${issue.file}#${issue.path}: ${issue.message}`)).toEqual([
+      `${DESIGN_CONFIG_FILE}#/typography/hierarchy/h5: 18px is not a multiple of the 4px base unit`,
+      `${DESIGN_CONFIG_FILE}#/typography/hierarchy/small: 14px is not a multiple of the 4px base unit`,
+      `${SYSTEM_CONFIG_FILE}#/designSystem/core/foundation/typography/gridBasedSizes/1: 14px is not a multiple of the 4px base unit in ${DESIGN_CONFIG_FILE}`,
+      `${SYSTEM_CONFIG_FILE}#/designSystem/core/foundation/typography/gridBasedSizes/3: 18px is not a multiple of the 4px base unit in ${DESIGN_CONFIG_FILE}`,
+    ])
+  })
+
+  it("rejects circular extends", () => {
+    const root = project({ "a.json": { extends: `./${DESIGN_CONFIG_FILE}` }, [DESIGN_CONFIG_FILE]: { extends: "./a.json" } })
+    expect(() => loadDesignSystem(root)).toThrow(/Circular "extends"/)
+  })
+})
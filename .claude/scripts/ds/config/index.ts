@@ -0,0 +1,236 @@
+// Reads design-config.json and system-config.json and derives the values the
+// checks enforce. Nothing in the rules is hardcoded: change the config, and
+// `ds check` follows. Both files are validated against ../schemas and against
+// each other before any tool sees them, and either may `extends` a base file.
+
+import * as fs from "node:fs"
+import { createRequire } from "node:module"
+import * as path from "node:path"
+import designSchema from "../schemas/design-config.schema.json"
+import systemSchema from "../schemas/system-config.schema.json"
+import { checkConsistency } from "./consistency"
+import { validate, type JsonSchema } from "./schema"
+import type { ComplianceConfig, ConfigIssue, DesignConfig, DesignSystem, SystemConfig } from "./types"
+
+export type * from "./types"
+
+export const DESIGN_CONFIG_FILE = "design-config.json"
+export const SYSTEM_CONFIG_FILE = "system-config.json"
+
+/** Thrown by `loadDesignSystem()` when either config file has errors */
+export class DesignSystemError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      [`Invalid design system configuration (${issues.length} error${issues.length === 1 ? "" : "s"}):`]
+        .concat(issues.map(formatIssue))
+        .join("\n"),
+    )
+    this.name = "DesignSystemError"
+  }
+}
+
+export function formatIssue(issue: ConfigIssue): string {
+  return `  ${issue.file}#${issue.path}: ${issue.message}`
+}
+
+/** A file's text, or undefined when it does not exist */
+export type FileReader = (file: string) => string | undefined
+
+export const readFromDisk: FileReader = (file) => (fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined)
+
+/** Walks up from `start` to the first directory holding design-config.json */
+export function findConfigRoot(start: string): string | undefined {
+  let dir = path.resolve(start)
+  for (;;) {
+    if (fs.existsSync(path.join(dir, DESIGN_CONFIG_FILE))) return dir
+    const parent = path.dirname(dir)
+    if (parent === dir) return undefined
+    dir = parent
+  }
+}
+
+function readJson<T>(file: string, read: FileReader): T {
+  try {
+    const text = read(file)
+    if (text === undefined) throw new Error("no such file")
+    return JSON.parse(text) as T
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${(error as Error).message}`)
+  }
+}
+
+export function parsePx(value: string | number): number | undefined {
+  if (typeof value === "number") return value
+  const match = /^(-?\d*\.?\d+)(px|rem)?$/.exec(value.trim())
+  if (!match) return undefined
+  const amount = Number(match[1])
+  return match[2] === "rem" ? amount * 16 : amount
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** Objects merge key by key; arrays and scalars in `override` replace the base value */
+export function mergeConfig(base: unknown, override: unknown): unknown {
+  if (!isObject(base) || !isObject(override)) return override
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? mergeConfig(base[key], value) : value
+  }
+  return merged
+}
+
+interface Layer {
+  file: string
+  data: Record<string, unknown>
+}
+
+function resolveExtends(from: string, specifier: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) return path.resolve(path.dirname(from), specifier)
+  // Bare specifiers resolve like imports, so a base playbook can ship as a package
+  return createRequire(from).resolve(specifier)
+}
+
+/** Reads `file` and every base it extends, bases first */
+function readLayers(file: string, read: FileReader, chain: string[] = []): Layer[] {
+  if (chain.includes(file)) {
+    throw new Error(`Circular "extends": ${[...chain, file].map((entry) => path.basename(entry)).join(" → ")}`)
+  }
+  const data = readJson<Record<string, unknown>>(file, read)
+  if (typeof data.extends !== "string") return [{ file, data }]
+  const base = resolveExtends(file, data.extends)
+  if (read(base) === undefined) throw new Error(`${file} extends ${data.extends}, which does not exist`)
+  return [...readLayers(base, read, [...chain, file]), { file, data }]
+}
+
+function mergeLayers<T>(layers: Layer[]): T {
+  const merged = layers.reduce<unknown>((acc, layer) => mergeConfig(acc, layer.data), {}) as Record<string, unknown>
+  delete merged.extends
+  return merged as T
+}
+
+function hasPointer(data: unknown, pointer: string): boolean {
+  let node = data
+  for (const part of pointer.split("/").slice(1)) {
+    const key = part.replace(/~1/g, "/").replace(/~0/g, "~")
+    if (!isObject(node) && !Array.isArray(node)) return false
+    if (!(key in node)) return false
+    node = (node as Record<string, unknown>)[key]
+  }
+  return true
+}
+
+/** Attributes an issue to the last file in the extends chain that sets its path */
+function attribute(issue: ConfigIssue, layers: Layer[], root: string): ConfigIssue {
+  const owner = [...layers].reverse().find((layer) => hasPointer(layer.data, issue.path)) ?? layers[layers.length - 1]
+  return { ...issue, file: path.relative(root, owner.file) }
+}
+
+/** Schema and cross-file checks over already merged configs */
+export function validateDesignSystem(design: unknown, system?: unknown): ConfigIssue[] {
+  const toIssues = (file: string, value: unknown, schema: JsonSchema): ConfigIssue[] =>
+    validate(value, schema).map(({ path: pointer, message }) => ({ severity: "error", file, path: pointer, message }))
+
+  const issues = [
+    ...toIssues(DESIGN_CONFIG_FILE, design, designSchema as JsonSchema),
+    ...(system === undefined ? [] : toIssues(SYSTEM_CONFIG_FILE, system, systemSchema as JsonSchema)),
+  ]
+  // Cross-file checks assume the shapes the schemas guarantee
+  if (issues.length) return issues
+  return checkConsistency(design as DesignConfig, system as SystemConfig | undefined)
+}
+
+export function deriveCompliance(design: DesignConfig, system?: SystemConfig): ComplianceConfig {
+  const foundation = system?.designSystem.core.foundation
+  const hierarchySizes = Object.values(design.typography.hierarchy)
+    .map((size) => parsePx(size))
+    .filter((size): size is number => size !== undefined)
+  const fontSizes = [...new Set([...(foundation?.typography.gridBasedSizes ?? []), ...hierarchySizes])]
+    .sort((a, b) => a - b)
+
+  return {
+    fontFamily: design.typography.fontFamily,
+    fontWeights: foundation?.typography.allowedWeights ?? design.typography.weights,
+    fontSizes,
+    maxFontSize: foundation?.typography.maxSize ?? Math.max(...fontSizes),
+    spacingScale: [...design.spacing.scale].sort((a, b) => a - b),
+    colorTokens: [
+      ...new Set([...Object.keys(design.branding.brandColors), ...(design.branding.semanticTokens ?? [])]),
+    ],
+    componentHeights: design.components.heights ?? {},
+    standardHeight: design.components.standardHeight,
+    colorMap: design.autofix?.colorMap ?? {},
+    brandHex: Object.fromEntries(
+      Object.entries(design.branding.brandColors).map(([name, color]) => [color.hex.toLowerCase(), name]),
+    ),
+  }
+}
+
+function pxRecord(values: Record<string, string> = {}): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(values).flatMap(([key, value]) => {
+      const px = parsePx(value)
+      return px === undefined ? [] : [[key, px]]
+    }),
+  )
+}
+
+/**
+ * Loads, merges, validates and normalizes the design system for `cwd`, with
+ * `read` serving the config files (`ds pre-commit` reads them from the git
+ * index). Throws a `DesignSystemError` listing every error by file and JSON Pointer.
+ */
+export function loadDesignSystem(cwd: string = process.cwd(), read: FileReader = readFromDisk): DesignSystem {
+  const root = findConfigRoot(cwd)
+  if (!root) {
+    throw new Error(`${DESIGN_CONFIG_FILE} not found in ${cwd} or any parent directory`)
+  }
+  const designLayers = readLayers(path.join(root, DESIGN_CONFIG_FILE), read)
+  const systemFile = path.join(root, SYSTEM_CONFIG_FILE)
+  const systemLayers = read(systemFile) === undefined ? [] : readLayers(systemFile, read)
+
+  const design = mergeLayers<DesignConfig>(designLayers)
+  const system = systemLayers.length ? mergeLayers<SystemConfig>(systemLayers) : undefined
+
+  const issues = validateDesignSystem(design, system).map((issue) =>
+    attribute(issue, issue.file === SYSTEM_CONFIG_FILE ? systemLayers : designLayers, root),
+  )
+  const errors = issues.filter((issue) => issue.severity === "error")
+  if (errors.length) throw new DesignSystemError(errors)
+
+  const compliance = deriveCompliance(design, system)
+  const foundation = system?.designSystem.core.foundation
+  return {
+    root,
+    sources: [...designLayers, ...systemLayers].map((layer) => layer.file),
+    design,
+    system,
+    compliance,
+    warnings: issues.filter((issue) => issue.severity === "warning"),
+    typography: {
+      fontFamily: design.typography.fontFamily,
+      baseSize: design.typography.baseSize,
+      weights: compliance.fontWeights,
+      hierarchy: pxRecord(design.typography.hierarchy),
+      sizes: compliance.fontSizes,
+      maxSize: compliance.maxFontSize,
+    },
+    spacing: {
+      baseUnit: design.spacing.baseUnit,
+      gridUnit: foundation?.spacing.gridUnit ?? design.spacing.baseUnit,
+      scale: compliance.spacingScale,
+    },
+    colors: {
+      brand: design.branding.brandColors,
+      tokens: compliance.colorTokens,
+      recommended: design.creative?.colorCombinations?.recommended ?? [],
+    },
+    components: {
+      heights: compliance.componentHeights,
+      standardHeight: compliance.standardHeight,
+      borderRadius: pxRecord(design.components.borderRadius),
+      shadows: design.components.shadows ?? {},
+    },
+  }
+}
@@ -0,0 +1,126 @@
+// Minimal JSON Schema validator for the keywords our config schemas use.
+// Keeping it in-house means no runtime dependency and errors phrased as
+// `/spacing/scale/3: ...` pointers into the file.
+
+export interface JsonSchema {
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  uniqueItems?: boolean
+  enum?: unknown[]
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  multipleOf?: number
+  anyOf?: JsonSchema[]
+  [key: string]: unknown
+}
+
+export interface SchemaError {
+  path: string
+  message: string
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === "number" && actual === "integer")
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith("#/")) throw new Error(`Unsupported $ref: ${ref}`)
+  let node: unknown = root
+  for (const part of ref.slice(2).split("/")) node = (node as Record<string, unknown>)?.[part]
+  if (!node) throw new Error(`Unresolved $ref: ${ref}`)
+  return node as JsonSchema
+}
+
+export function validate(value: unknown, schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = []
+
+  const walk = (node: unknown, current: JsonSchema, path: string): void => {
+    if (current.$ref) return walk(node, resolveRef(schema, current.$ref), path)
+    const at = path || "/"
+
+    if (current.anyOf) {
+      const passes = current.anyOf.some((option) => validate(node, { ...option, $defs: schema.$defs }).length === 0)
+      if (!passes) errors.push({ path: at, message: "does not match any allowed form" })
+      return
+    }
+    if (current.type) {
+      const types = Array.isArray(current.type) ? current.type : [current.type]
+      if (!types.some((type) => matchesType(node, type))) {
+        errors.push({ path: at, message: `expected ${types.join(" or ")}, got ${typeOf(node)}` })
+        return
+      }
+    }
+    if (current.enum && !current.enum.some((option) => JSON.stringify(option) === JSON.stringify(node))) {
+      errors.push({ path: at, message: `must be one of ${current.enum.map((option) => JSON.stringify(option)).join(", ")}` })
+    }
+
+    if (typeof node === "string" && current.pattern && !new RegExp(current.pattern).test(node)) {
+      errors.push({ path: at, message: `"${node}" does not match ${current.pattern}` })
+    }
+    if (typeof node === "number") {
+      if (current.minimum !== undefined && node < current.minimum) {
+        errors.push({ path: at, message: `${node} is below the minimum of ${current.minimum}` })
+      }
+      if (current.maximum !== undefined && node > current.maximum) {
+        errors.push({ path: at, message: `${node} is above the maximum of ${current.maximum}` })
+      }
+      if (current.multipleOf !== undefined && node % current.multipleOf !== 0) {
+        errors.push({ path: at, message: `${node} is not a multiple of ${current.multipleOf}` })
+      }
+    }
+
+    if (Array.isArray(node)) {
+      if (current.minItems !== undefined && node.length < current.minItems) {
+        errors.push({ path: at, message: `needs at least ${current.minItems} item(s)` })
+      }
+      if (current.uniqueItems) {
+        const seen = new Set<string>()
+        node.forEach((item, index) => {
+          const key = JSON.stringify(item)
+          if (seen.has(key)) errors.push({ path: `${path}/${index}`, message: `duplicate value ${key}` })
+          seen.add(key)
+        })
+      }
+      if (current.items) node.forEach((item, index) => walk(item, current.items!, `${path}/${index}`))
+    }
+
+    if (node && typeof node === "object" && !Array.isArray(node)) {
+      const record = node as Record<string, unknown>
+      for (const key of current.required ?? []) {
+        if (!(key in record)) errors.push({ path: at, message: `missing required property "${key}"` })
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childPath = `${path}/${escapePointer(key)}`
+        const property = current.properties?.[key]
+        if (property) walk(child, property, childPath)
+        else if (current.additionalProperties === false) {
+          errors.push({ path: childPath, message: "is not a recognized property" })
+        } else if (typeof current.additionalProperties === "object") {
+          walk(child, current.additionalProperties, childPath)
+        }
+      }
+    }
+  }
+
+  walk(value, schema, "")
+  return errors
+}
@@ -0,0 +1,216 @@
+// Shapes of design-config.json and system-config.json as described by
+// ../schemas/*.schema.json, plus the normalized view tools work with.
+
+export interface BrandColor {
+  name: string
+  hex: string
+  role?: string
+  usage?: string
+}
+
+/** Inputs for deriving the light and dark color themes */
+export interface ThemeConfig {
+  /** Share of the neutral brand color's chroma the surfaces keep */
+  surfaceTint: number
+  /** Brand colors are lifted to at least this OKLCH lightness in dark mode */
+  darkBrandMinLightness: number
+  /** OKLCH lightness of each neutral surface token, per mode */
+  surfaces: Record<"light" | "dark", Record<string, number>>
+}
+
+export interface DesignConfig {
+  $schema?: string
+  /** Path of a base design-config.json this file overrides */
+  extends?: string
+  version: string
+  designSystem?: {
+    name: string
+    version: string
+  }
+  branding: {
+    brandColors: Record<string, BrandColor>
+    semanticTokens?: string[]
+    theme?: ThemeConfig
+    colorPalette?: Record<string, string>
+  }
+  typography: {
+    fontFamily: string
+    baseSize: number
+    scaleRatio?: string
+    weights: number[]
+    hierarchy: Record<string, string>
+  }
+  spacing: {
+    system?: string
+    baseUnit: number
+    scale: number[]
+  }
+  layout?: {
+    maxWidth?: string
+    containerPadding?: Record<string, string>
+    gridColumns?: number
+    gridGap?: string
+  }
+  components: {
+    heights?: Record<string, number[]>
+    /** Height off-grid values snap toward when two standard heights are equally close */
+    standardHeight?: number
+    borderRadius?: Record<string, string>
+    shadows?: Record<string, string>
+  }
+  /** Output paths for `ds tokens`, relative to the project root */
+  tokens?: {
+    css?: string
+    typescript?: string
+    dtcg?: string
+    /** Directory of the generated DS wrapper components */
+    components?: string
+  }
+  /** Minimums for `ds contrast`; `text` and `ui` apply to the chosen algorithm */
+  contrast?: {
+    algorithm?: "wcag" | "apca"
+    text?: number
+    ui?: number
+  }
+  autofix?: {
+    /** Rule IDs `ds auto` may rewrite */
+    rules?: string[]
+    /** Palette color → semantic token; keys are bare colors (`gray-600`) or full classes (`text-white`) */
+    colorMap?: Record<string, string>
+  }
+  project?: Record<string, unknown>
+  creative?: {
+    designPrinciples?: string[]
+    colorCombinations?: {
+      recommended?: string[][]
+    }
+    visualGuidance?: Record<string, string>
+  }
+}
+
+export interface PersonaConfig {
+  emoji: string
+  activation: string
+  focus: string
+  expertise: string[]
+  decisionFramework: string
+  authority: string
+  specialNote?: string
+}
+
+export interface SystemConfig {
+  $schema?: string
+  /** Path of a base system-config.json this file overrides */
+  extends?: string
+  designSystem: {
+    version: string
+    name: string
+    description?: string
+    core: {
+      foundation: {
+        typography: {
+          fontFamily: string
+          allowedWeights: number[]
+          gridBasedSizes: number[]
+          maxSize: number
+        }
+        spacing: {
+          gridUnit: number
+          allowedValues?: string
+          enforcement?: string
+        }
+        colors: {
+          system?: string
+          forbidden?: string[]
+          required?: string[]
+        }
+        components?: Record<string, string>
+      }
+      aiIntelligence?: Record<string, unknown>
+    }
+    aiPersonas?: {
+      teamConsultation: {
+        activation: string
+        purpose: string
+        members: string[]
+      }
+      experts: Record<string, PersonaConfig>
+      collaborationPatterns?: {
+        sequential?: { description: string; example?: string; useCase?: string }
+        parallel?: { description: string; activation?: string; useCase?: string }
+        conflictResolution?: { process: string[]; hierarchy: string[] }
+      }
+    }
+    automation?: Record<string, unknown>
+  }
+  implementation?: Record<string, unknown>
+  metrics?: Record<string, string>
+}
+
+/** Values the compliance rules test against */
+export interface ComplianceConfig {
+  fontFamily: string
+  fontWeights: number[]
+  /** Allowed font sizes in px */
+  fontSizes: number[]
+  maxFontSize: number
+  /** Allowed spacing values in px */
+  spacingScale: number[]
+  /** Semantic color token names, e.g. `primary`, `muted` */
+  colorTokens: string[]
+  /** Allowed heights in px, keyed by shadcn/ui component name */
+  componentHeights: Record<string, number[]>
+  standardHeight?: number
+  /** Palette color → semantic token replacements */
+  colorMap: Record<string, string>
+  /** Lowercase brand hex → token name, e.g. `#3b82f6` → `primary` */
+  brandHex: Record<string, string>
+}
+
+export interface ConfigIssue {
+  severity: "error" | "warning"
+  /** Config file name, e.g. `design-config.json` */
+  file: string
+  /** JSON Pointer into the merged config, e.g. `/spacing/scale/3` */
+  path: string
+  message: string
+}
+
+/** Fully typed, normalized design system returned by `loadDesignSystem()` */
+export interface DesignSystem {
+  root: string
+  /** Files the config was assembled from, bases first */
+  sources: string[]
+  design: DesignConfig
+  system?: SystemConfig
+  compliance: ComplianceConfig
+  warnings: ConfigIssue[]
+  typography: {
+    fontFamily: string
+    baseSize: number
+    weights: number[]
+    /** Hierarchy sizes in px, e.g. `{ h1: 40 }` */
+    hierarchy: Record<string, number>
+    /** Every allowed font size in px */
+    sizes: number[]
+    maxSize: number
+  }
+  spacing: {
+    baseUnit: number
+    gridUnit: number
+    scale: number[]
+  }
+  colors: {
+    brand: Record<string, BrandColor>
+    /** Every semantic token name classes may use */
+    tokens: string[]
+    recommended: string[][]
+  }
+  components: {
+    heights: Record<string, number[]>
+    standardHeight?: number
+    /** Radii in px */
+    borderRadius: Record<string, number>
+    shadows: Record<string, string>
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { loadDesignSystem } from "../config"
+import { PLAYBOOK_ROOT } from "../fixtures/design-system"
+import { parseActivation } from "./activation"
+import { personasOf } from "./index"
+
+const personas = personasOf(loadDesignSystem(PLAYBOOK_ROOT))
+
+describe("parseActivation", () => {
+  it("chains personas with → or -> and keeps the rest as the question", () => {
+    expect(parseActivation("🎯 @productowner -> @DesignEngineer Ship dark mode first?", personas)).toMatchObject({
+      pattern: "sequential",
+      personas: ["ProductOwner", "DesignEngineer"],
+      question: "Ship dark mode first?",
+    })
+  })
+
+  it("consults + and the team handle in parallel", () => {
+    expect(parseActivation("@UXManager + @BehavioralDoctor Too long?", personas)).toMatchObject({ pattern: "parallel" })
+    expect(parseActivation("🤝 @TeamConsult Balance?", personas).personas).toEqual(personas.teamConsultation.members)
+  })
+
+  it("rejects unknown, repeated and mixed activations", () => {
+    expect(() => parseActivation("@Nobody Why?", personas)).toThrow("Unknown persona @Nobody")
+    expect(() => parseActivation("@UXManager + @UXManager Why?", personas)).toThrow("@UXManager appears twice")
+    expect(() => parseActivation("@UXManager + @ProductOwner → @BackendExpert Why?", personas)).toThrow("Mixing → and +")
+    expect(() => parseActivation("@UXManager", personas)).toThrow("The activation has no question")
+  })
+})
@@ -0,0 +1,76 @@
+// Activation strings as written in chat or on the command line:
+//
+//   🎯 @ProductOwner → 🎨 @DesignEngineer Should we ship dark mode first?
+//   🤝 @TeamConsult How do we balance customization with consistency?
+//   @UXManager + @BehavioralDoctor Is a 5-step onboarding too long?
+//
+// `→` (or `->`) chains personas sequentially, `+` consults them in parallel
+// and the team handle consults every member in parallel. Emojis are optional.
+// Everything after the last handle is the question.
+
+import type { SystemConfig } from "../config"
+import type { Activation, Pattern } from "./types"
+
+export type Personas = NonNullable<SystemConfig["designSystem"]["aiPersonas"]>
+
+/** An optional emoji (or other symbol) followed by `@Name` */
+const HANDLE = /^(?:[^\s@\w]+\s*)?@(\w+)\s*/u
+const SEPARATOR = /^(→|->|\+)\s*/
+
+const handleName = (activation: string) => activation.replace(/^.*@/, "").trim()
+
+export function parseActivation(text: string, personas: Personas): Activation {
+  const team = handleName(personas.teamConsultation.activation)
+  const known = Object.keys(personas.experts)
+  const example = personas.collaborationPatterns?.sequential?.example ?? "🎯 @ProductOwner → 🎨 @DesignEngineer"
+
+  const lookup = (name: string) => {
+    const match = [team, ...known].find((candidate) => candidate.toLowerCase() === name.toLowerCase())
+    if (!match) throw new Error(`Unknown persona @${name}. Known: ${[team, ...known].map((n) => `@${n}`).join(", ")}`)
+    return match
+  }
+
+  let rest = text.trim()
+  const names: string[] = []
+  const separators = new Set<string>()
+  for (;;) {
+    const handle = HANDLE.exec(rest)
+    if (!handle) {
+      if (!names.length) throw new Error(`Expected an activation such as "${example} <question>"`)
+      throw new Error(`Expected a persona after "${[...separators].pop()}"`)
+    }
+    names.push(lookup(handle[1]))
+    rest = rest.slice(handle[0].length)
+    const separator = SEPARATOR.exec(rest)
+    if (!separator) break
+    separators.add(separator[1] === "->" ? "→" : separator[1])
+    rest = rest.slice(separator[0].length)
+  }
+
+  if (separators.size > 1) throw new Error("Mixing → and + in one activation is not supported")
+  if (names.includes(team) && names.length > 1) {
+    throw new Error(`@${team} already consults the whole team; use it on its own`)
+  }
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  if (duplicate) throw new Error(`@${duplicate} appears twice`)
+  const question = rest.trim()
+  if (!question) throw new Error("The activation has no question")
+
+  if (names[0] === team) {
+    return {
+      pattern: "parallel",
+      personas: [...personas.teamConsultation.members],
+      question,
+      handle: personas.teamConsultation.activation,
+    }
+  }
+  const pattern: Pattern = separators.has("+") ? "parallel" : "sequential"
+  return {
+    pattern,
+    personas: names,
+    question,
+    handle: names
+      .map((name) => `${personas.experts[name].emoji} ${personas.experts[name].activation}`)
+      .join(pattern === "sequential" ? " → " : " + "),
+  }
+}
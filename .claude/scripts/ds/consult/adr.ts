@@ -0,0 +1,101 @@
+// Markdown architecture decision records for consultations, numbered like
+// `docs/adr/0007-ship-dark-mode-first.md`. Every record lists the prompt
+// hashes and provider, so a decision can be traced back to its inputs.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { Consultation, DecisionStatus } from "./types"
+
+export const DEFAULT_ADR_DIRECTORY = "docs/adr"
+
+const STATUS: Record<DecisionStatus, string> = {
+  accepted: "Accepted",
+  "accepted-with-concerns": "Accepted with concerns",
+  rejected: "Rejected",
+  blocked: "Blocked (compliance veto)",
+}
+
+/** The question's first sentence, shortened for a heading */
+function titleOf(question: string): string {
+  const sentence = /^.*?[.?!](?=\s|$)/s.exec(question)?.[0] ?? question
+  const line = sentence.replace(/\s+/g, " ").trim()
+  return line.length > 80 ? `${line.slice(0, 77).trimEnd()}...` : line
+}
+
+function slugOf(question: string): string {
+  const words = titleOf(question).toLowerCase().match(/[a-z0-9]+/g) ?? []
+  return words.slice(0, 6).join("-") || "decision"
+}
+
+const list = (items: string[]) => items.map((item) => `- ${item}`)
+
+export function renderAdr(consultation: Consultation, number?: number): string {
+  const { activation, responses, resolution } = consultation
+  const emoji = new Map(responses.map((response) => [response.persona, response.emoji]))
+  const who = (persona: string) => `${emoji.get(persona) ?? ""} ${persona}`.trim()
+  const heading = number === undefined ? titleOf(activation.question) : `${String(number).padStart(4, "0")}. ${titleOf(activation.question)}`
+
+  const lines = [
+    `# ${heading}`,
+    "",
+    `- Status: ${STATUS[resolution.status]}`,
+    `- Date: ${consultation.date}`,
+    `- Activation: \`${activation.handle}\``,
+    `- Pattern: ${activation.pattern}`,
+    `- Deciders: ${responses.map((response) => who(response.persona)).join(", ")}`,
+    "",
+    "## Context",
+    "",
+    activation.question,
+    "",
+    "## Perspectives",
+  ]
+  for (const response of responses) {
+    lines.push("", `### ${who(response.persona)}: ${response.verdict}`, "", response.recommendation)
+    if (response.rationale.length) lines.push("", "**Rationale**", "", ...list(response.rationale))
+    if (response.risks.length) lines.push("", "**Risks**", "", ...list(response.risks))
+  }
+
+  lines.push("", "## Decision", "", resolution.decision)
+  if (resolution.decidedBy) {
+    lines.push("", `Decided by ${who(resolution.decidedBy)}${resolution.strategy ? `. ${resolution.strategy}` : ""}.`)
+  }
+
+  const resolutionNotes = [
+    ...(resolution.conflict ? [`Conflict: ${resolution.conflict}`] : []),
+    ...(resolution.vetoedBy ? [`Veto: ${who(resolution.vetoedBy)}`] : []),
+    ...resolution.notes,
+    ...(consultation.skipped.length ? [`Not consulted after the veto: ${consultation.skipped.join(", ")}`] : []),
+  ]
+  if (resolutionNotes.length) lines.push("", "## Conflict Resolution", "", ...list(resolutionNotes))
+
+  const risks = responses.flatMap((response) => response.risks.map((risk) => `${risk} (${response.persona})`))
+  if (risks.length) lines.push("", "## Consequences", "", ...list(risks))
+
+  lines.push(
+    "",
+    "## Audit",
+    "",
+    "| Persona | Verdict | Prompt sha256 |",
+    "| --- | --- | --- |",
+    ...responses.map((response) => `| ${response.persona} | ${response.verdict} | \`${response.promptHash.slice(0, 16)}\` |`),
+    "",
+    `Provider \`${consultation.provider}\`, system-config.json ${consultation.configVersion}.`,
+    "",
+  )
+  return lines.join("\n")
+}
+
+/** Writes the record as the next numbered ADR in `directory` and returns its path */
+export function writeAdr(consultation: Consultation, directory: string): string {
+  fs.mkdirSync(directory, { recursive: true })
+  const numbers = fs
+    .readdirSync(directory)
+    .map((name) => /^(\d{4})-/.exec(name)?.[1])
+    .filter((match): match is string => !!match)
+    .map(Number)
+  const number = Math.max(0, ...numbers) + 1
+  const file = path.join(directory, `${String(number).padStart(4, "0")}-${slugOf(consultation.activation.question)}.md`)
+  fs.writeFileSync(file, renderAdr(consultation, number))
+  return file
+}
@@ -0,0 +1,72 @@
+// Persona consultation engine behind `ds consult`: parse an activation, ask
+// each persona through a model provider (in sequence or in parallel), settle
+// conflicts with the config's hierarchy and veto, and hand back a record that
+// can be written as an ADR.
+
+import type { DesignSystem, SystemConfig } from "../config"
+import { parseActivation, type Personas } from "./activation"
+import { buildPrompt, hashPrompt, vetoHolders } from "./prompt"
+import type { ModelProvider } from "./provider"
+import { parseResponse, resolve } from "./resolve"
+import type { Consultation, PersonaResponse } from "./types"
+
+export { parseActivation } from "./activation"
+export { DEFAULT_ADR_DIRECTORY, renderAdr, writeAdr } from "./adr"
+export { createStubProvider, loadProvider, type ModelProvider } from "./provider"
+export type * from "./types"
+
+function systemOf(config: DesignSystem): SystemConfig {
+  if (!config.system) throw new Error("Consultations need a system-config.json with aiPersonas")
+  return config.system
+}
+
+export function personasOf(config: DesignSystem): Personas {
+  const personas = systemOf(config).designSystem.aiPersonas
+  if (!personas) throw new Error("system-config.json defines no aiPersonas")
+  return personas
+}
+
+export interface ConsultOptions {
+  provider: ModelProvider
+  /** Decision date; defaults to today */
+  date?: Date
+}
+
+export async function consult(text: string, config: DesignSystem, options: ConsultOptions): Promise<Consultation> {
+  const system = systemOf(config)
+  const personas = personasOf(config)
+  const activation = parseActivation(text, personas)
+  const { provider } = options
+
+  const ask = async (persona: string, earlier: PersonaResponse[]): Promise<PersonaResponse> => {
+    const prompt = buildPrompt(persona, system, activation, earlier)
+    const raw = await provider.complete(prompt)
+    return { persona, emoji: personas.experts[persona].emoji, raw, promptHash: hashPrompt(prompt), ...parseResponse(raw) }
+  }
+
+  const holders = vetoHolders(personas)
+  const responses: PersonaResponse[] = []
+  const skipped: string[] = []
+  if (activation.pattern === "parallel") {
+    responses.push(...(await Promise.all(activation.personas.map((persona) => ask(persona, [])))))
+  } else {
+    for (const persona of activation.personas) {
+      // A veto ends a chain: later personas would only be weighing a blocked proposal
+      if (responses.some((response) => response.verdict === "block" && holders.includes(response.persona))) {
+        skipped.push(persona)
+        continue
+      }
+      responses.push(await ask(persona, responses))
+    }
+  }
+
+  return {
+    activation,
+    provider: provider.name,
+    configVersion: system.designSystem.version,
+    date: (options.date ?? new Date()).toISOString().slice(0, 10),
+    responses,
+    skipped,
+    resolution: resolve(responses, personas),
+  }
+}
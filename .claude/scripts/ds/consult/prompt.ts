@@ -0,0 +1,83 @@
+// Persona prompts, built only from system-config.json so the same config and
+// question always produce the same prompt.
+
+import { createHash } from "node:crypto"
+import type { SystemConfig } from "../config"
+import type { Personas } from "./activation"
+import type { Activation, PersonaPrompt, PersonaResponse } from "./types"
+
+/** Personas whose authority or hierarchy tier grants a veto */
+export function vetoHolders(personas: Personas): string[] {
+  const tiers = personas.collaborationPatterns?.conflictResolution?.hierarchy ?? []
+  return Object.keys(personas.experts).filter(
+    (name) =>
+      /veto/i.test(personas.experts[name].authority) ||
+      tiers.some((tier) => /veto/i.test(tier) && new RegExp(`\\b${name}\\b`).test(tier)),
+  )
+}
+
+function foundationRules(system: SystemConfig): string[] {
+  const { typography, spacing, colors, components } = system.designSystem.core.foundation
+  return [
+    `Typography: ${typography.fontFamily} only, weights ${typography.allowedWeights.join("/")}, sizes up to ${typography.maxSize}px`,
+    `Spacing: ${spacing.gridUnit}px grid${spacing.allowedValues ? ` (${spacing.allowedValues})` : ""}`,
+    ...(colors.system ? [`Colors: ${colors.system}`] : []),
+    ...Object.entries(components ?? {}).map(([key, value]) => `Components (${key}): ${value}`),
+  ]
+}
+
+function responseFormat(veto: boolean): string[] {
+  return [
+    "Reply in exactly this format:",
+    `Verdict: approve | concerns | reject${veto ? " | block" : ""}`,
+    "Recommendation: <one paragraph>",
+    "Rationale:",
+    "- <one point per line>",
+    "Risks:",
+    "- <one risk per line>",
+    ...(veto ? ["Use block only when the proposal violates a legal, privacy or accessibility requirement."] : []),
+  ]
+}
+
+export function buildPrompt(
+  name: string,
+  system: SystemConfig,
+  activation: Activation,
+  earlier: PersonaResponse[] = [],
+): PersonaPrompt {
+  const personas = system.designSystem.aiPersonas!
+  const expert = personas.experts[name]
+  const veto = vetoHolders(personas).includes(name)
+  const step = activation.personas.indexOf(name) + 1
+
+  const systemPrompt = [
+    `You are ${expert.emoji} ${name} in a consultation for ${system.designSystem.name}.`,
+    `Focus: ${expert.focus}`,
+    `Expertise: ${expert.expertise.join(", ")}`,
+    `Decision framework: ${expert.decisionFramework}`,
+    `Authority: ${expert.authority}`,
+    ...(expert.specialNote ? [`Note: ${expert.specialNote}`] : []),
+    "",
+    "Every recommendation must keep the design system foundation intact:",
+    ...foundationRules(system).map((rule) => `- ${rule}`),
+    "",
+    ...responseFormat(veto),
+  ].join("\n")
+
+  const context =
+    activation.pattern === "sequential"
+      ? `Sequential consultation, step ${step} of ${activation.personas.length}: ${activation.handle}`
+      : `Parallel consultation with ${activation.personas.map((persona) => `@${persona}`).join(", ")}; answer independently.`
+  const prompt = [
+    context,
+    "",
+    `Question: ${activation.question}`,
+    ...earlier.flatMap((response) => ["", `Earlier perspective from ${response.emoji} ${response.persona}:`, response.raw.trim()]),
+  ].join("\n")
+
+  return { persona: name, system: systemPrompt, prompt }
+}
+
+export function hashPrompt(prompt: PersonaPrompt): string {
+  return createHash("sha256").update(prompt.system).update("\0").update(prompt.prompt).digest("hex")
+}
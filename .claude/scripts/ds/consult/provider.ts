@@ -0,0 +1,63 @@
+// Model providers. The engine only needs `complete`; any model can be plugged
+// in through a module whose default export is a provider or a factory for one.
+// The stub provider answers from the persona config alone, so consultations
+// run offline and the same input always yields the same record.
+
+import * as path from "node:path"
+import { pathToFileURL } from "node:url"
+import type { Personas } from "./activation"
+import type { PersonaPrompt, Verdict } from "./types"
+
+export interface ModelProvider {
+  /** Recorded in the decision record */
+  readonly name: string
+  complete(request: PersonaPrompt): Promise<string>
+}
+
+export interface StubOptions {
+  /** Verdict per persona; everyone else approves */
+  verdicts?: Record<string, Verdict>
+}
+
+/** The question line of a prompt */
+const questionOf = (prompt: string) => /^Question: (.*)$/m.exec(prompt)?.[1] ?? ""
+
+export function createStubProvider(personas: Personas, options: StubOptions = {}): ModelProvider {
+  return {
+    name: "stub",
+    async complete({ persona, prompt }) {
+      const expert = personas.experts[persona]
+      const verdict = options.verdicts?.[persona] ?? "approve"
+      const focus = expert.focus.charAt(0).toLowerCase() + expert.focus.slice(1)
+      const earlier = [...prompt.matchAll(/^Earlier perspective from \S+ (\w+):$/gm)].map((match) => match[1])
+      const action = {
+        approve: "Proceed with",
+        concerns: "Proceed, with conditions, with",
+        reject: "Do not proceed with",
+        block: "Block",
+      }[verdict]
+      return [
+        `Verdict: ${verdict}`,
+        `Recommendation: ${action} "${questionOf(prompt)}" as seen from ${focus}.`,
+        "Rationale:",
+        `- Weighed with ${expert.decisionFramework}`,
+        ...(earlier.length ? [`- Builds on ${earlier.join(", ")}`] : []),
+        "Risks:",
+        `- Depends on ${expert.expertise[0]} assumptions holding`,
+        "",
+      ].join("\n")
+    },
+  }
+}
+
+/** `stub`, or a path to a module exporting a provider (or a function returning one) */
+export async function loadProvider(spec: string, personas: Personas, cwd: string, options: StubOptions = {}): Promise<ModelProvider> {
+  if (spec === "stub") return createStubProvider(personas, options)
+  const module = await import(pathToFileURL(path.resolve(cwd, spec)).href)
+  const exported = module.default ?? module.provider
+  const provider = typeof exported === "function" ? await exported() : exported
+  if (!provider || typeof provider.complete !== "function") {
+    throw new Error(`${spec} must export a provider with a complete() method, or a function returning one`)
+  }
+  return { name: provider.name ?? path.basename(spec), complete: (request) => provider.complete(request) }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { loadDesignSystem } from "../config"
+import { PLAYBOOK_ROOT } from "../fixtures/design-system"
+import { personasOf } from "./index"
+import { parseHierarchy, parseResponse, resolve } from "./resolve"
+import type { PersonaResponse, Verdict } from "./types"
+
+const personas = personasOf(loadDesignSystem(PLAYBOOK_ROOT))
+
+function reply(persona: string, verdict: Verdict): PersonaResponse {
+  return { persona, emoji: "", verdict, recommendation: `${persona} says ${verdict}`, rationale: [], risks: [], raw: "", promptHash: "" }
+}
+
+describe("parseHierarchy", () => {
+  it("reads tiers, members and veto authority from the config", () => {
+    expect(parseHierarchy(personas)).toEqual([
+      { name: "Strategic", members: ["ProductOwner", "MarketingConsultant"], veto: false },
+      { name: "Technical", members: ["BackendExpert", "DesignEngineer"], veto: false },
+      { name: "UX", members: ["UXManager", "BehavioralDoctor"], veto: false },
+      { name: "Compliance", members: ["ComplianceManager"], veto: true },
+    ])
+  })
+})
+
+describe("parseResponse", () => {
+  it("reads the sections and strips bullets", () => {
+    const raw = "Verdict: Reject.\nRecommendation: Wait.\nRationale:\n- Too early\nRisks:\n* Churn\n"
+    expect(parseResponse(raw)).toEqual({ verdict: "reject", recommendation: "Wait.", rationale: ["Too early"], risks: ["Churn"] })
+  })
+
+  it("counts an unrecognized verdict as concerns and keeps free text as the recommendation", () => {
+    expect(parseResponse("Sounds fine to me")).toMatchObject({ verdict: "concerns", recommendation: "Sounds fine to me" })
+  })
+})
+
+describe("resolve", () => {
+  it("accepts on consensus, led by the highest tier", () => {
+    const resolution = resolve([reply("DesignEngineer", "approve"), reply("ProductOwner", "concerns")], personas)
+    expect(resolution).toMatchObject({ status: "accepted-with-concerns", decidedBy: "ProductOwner", strategy: "Consensus, with conditions" })
+  })
+
+  it("lets a veto holder block whatever the others say", () => {
+    const resolution = resolve([reply("ProductOwner", "approve"), reply("ComplianceManager", "block")], personas)
+    expect(resolution).toMatchObject({ status: "blocked", vetoedBy: "ComplianceManager", decision: "ComplianceManager says block" })
+  })
+
+  it("counts a block without veto authority as a rejection", () => {
+    const resolution = resolve([reply("DesignEngineer", "block")], personas)
+    expect(resolution.status).toBe("rejected")
+    expect(resolution.notes).toEqual(["DesignEngineer has no veto authority; its block counts as a rejection."])
+  })
+
+  it("settles a conflict by the first tier that takes part", () => {
+    const resolution = resolve([reply("BackendExpert", "reject"), reply("ProductOwner", "approve")], personas)
+    expect(resolution).toMatchObject({
+      status: "accepted-with-concerns",
+      decidedBy: "ProductOwner",
+      conflict: "Technical objection: BackendExpert against ProductOwner",
+      notes: ["BackendExpert dissented: BackendExpert says reject"],
+    })
+  })
+
+  it("defers past a split tier", () => {
+    const resolution = resolve(
+      [reply("ProductOwner", "approve"), reply("MarketingConsultant", "reject"), reply("DesignEngineer", "reject")],
+      personas,
+    )
+    expect(resolution).toMatchObject({ status: "rejected", decidedBy: "DesignEngineer" })
+    expect(resolution.notes[0]).toBe("Strategic tier is split; deferring to the next tier.")
+  })
+})
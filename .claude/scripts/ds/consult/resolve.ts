@@ -0,0 +1,142 @@
+// Turns persona replies into a decision. A veto holder's `block` ends the
+// matter; otherwise disagreement between personas is settled by the
+// conflictResolution hierarchy in system-config.json, earlier tiers first:
+//
+//   "Strategic: ProductOwner + MarketingConsultant"
+//   "Compliance: ComplianceManager (veto authority)"
+
+import type { Personas } from "./activation"
+import { vetoHolders } from "./prompt"
+import { VERDICTS, type PersonaResponse, type Resolution, type Verdict } from "./types"
+
+export interface Tier {
+  name: string
+  members: string[]
+  veto: boolean
+}
+
+export function parseHierarchy(personas: Personas): Tier[] {
+  return (personas.collaborationPatterns?.conflictResolution?.hierarchy ?? []).map((entry) => {
+    const [name, list = ""] = entry.includes(":") ? entry.split(/:(.*)/s) : [entry, entry]
+    const members = list
+      .replace(/\([^)]*\)/g, "")
+      .split(/[+,&]/)
+      .map((member) => member.trim())
+      .filter((member) => member in personas.experts)
+    return { name: name.trim(), members, veto: /veto/i.test(entry) }
+  })
+}
+
+const SECTION = /^(Verdict|Recommendation|Rationale|Risks):\s*(.*)$/i
+
+/** Reads the reply format the prompts ask for; unrecognized verdicts count as concerns */
+export function parseResponse(raw: string): Pick<PersonaResponse, "verdict" | "recommendation" | "rationale" | "risks"> {
+  const sections: Record<string, string[]> = {}
+  let current: string | undefined
+  for (const line of raw.split("\n")) {
+    const match = SECTION.exec(line.trim())
+    if (match) {
+      current = match[1].toLowerCase()
+      sections[current] = match[2] ? [match[2]] : []
+    } else if (current && line.trim()) {
+      sections[current].push(line.trim())
+    }
+  }
+  const verdict = (sections.verdict?.[0] ?? "").toLowerCase().replace(/[^a-z]/g, "") as Verdict
+  const items = (lines: string[] = []) => lines.map((line) => line.replace(/^[-*•]\s*/, ""))
+  return {
+    verdict: VERDICTS.includes(verdict) ? verdict : "concerns",
+    recommendation: (sections.recommendation ?? []).join(" ") || raw.trim(),
+    rationale: items(sections.rationale),
+    risks: items(sections.risks),
+  }
+}
+
+const inFavor = (verdict: Verdict) => verdict === "approve" || verdict === "concerns"
+
+export function resolve(responses: PersonaResponse[], personas: Personas): Resolution {
+  const holders = vetoHolders(personas)
+  const notes: string[] = []
+
+  // Only a veto holder can block; from anyone else it is a rejection
+  const positions = responses.map((response) => {
+    if (response.verdict !== "block" || holders.includes(response.persona)) return response
+    notes.push(`${response.persona} has no veto authority; its block counts as a rejection.`)
+    return { ...response, verdict: "reject" as Verdict }
+  })
+
+  const veto = positions.find((response) => response.verdict === "block")
+  if (veto) {
+    return {
+      status: "blocked",
+      decidedBy: veto.persona,
+      vetoedBy: veto.persona,
+      strategy: "Veto authority overrides every other position",
+      decision: veto.recommendation,
+      notes,
+    }
+  }
+
+  const tiers = parseHierarchy(personas)
+  const rank = (persona: string) => {
+    const index = tiers.findIndex((tier) => tier.members.includes(persona))
+    return index === -1 ? tiers.length : index
+  }
+  const byRank = [...positions].sort((a, b) => rank(a.persona) - rank(b.persona))
+  const favor = positions.filter((response) => inFavor(response.verdict))
+  const against = positions.filter((response) => !inFavor(response.verdict))
+  const concerns = positions.some((response) => response.verdict === "concerns")
+
+  if (!against.length) {
+    const lead = byRank[0]
+    return {
+      status: concerns ? "accepted-with-concerns" : "accepted",
+      decidedBy: lead.persona,
+      strategy: concerns ? "Consensus, with conditions" : "Consensus",
+      decision: lead.recommendation,
+      notes,
+    }
+  }
+  if (!favor.length) {
+    const lead = byRank[0]
+    return { status: "rejected", decidedBy: lead.persona, strategy: "Consensus", decision: lead.recommendation, notes }
+  }
+
+  // Conflict: the first tier whose participating members agree decides
+  const tierName = (persona: string) => tiers[rank(persona)]?.name ?? "Other"
+  const names = (list: PersonaResponse[]) => list.map((response) => response.persona).join(", ")
+  const types = [...new Set(against.map((response) => tierName(response.persona)))].join(" + ")
+  const conflict = `${types} objection: ${names(against)} against ${names(favor)}`
+  for (const tier of tiers) {
+    const members = positions.filter((response) => tier.members.includes(response.persona))
+    if (!members.length) continue
+    const accepted = members.every((response) => inFavor(response.verdict))
+    if (!accepted && members.some((response) => inFavor(response.verdict))) {
+      notes.push(`${tier.name} tier is split; deferring to the next tier.`)
+      continue
+    }
+    const lead = members[0]
+    return {
+      status: accepted ? "accepted-with-concerns" : "rejected",
+      decidedBy: lead.persona,
+      conflict,
+      strategy: `Resolved by the ${tier.name} tier (${tier.members.join(" + ")})`,
+      decision: lead.recommendation,
+      notes: [
+        ...notes,
+        ...(accepted ? against : favor).map((response) => `${response.persona} dissented: ${response.recommendation}`),
+      ],
+    }
+  }
+
+  // No tier could decide: keep the status quo
+  const lead = [...against].sort((a, b) => rank(a.persona) - rank(b.persona))[0]
+  return {
+    status: "rejected",
+    decidedBy: lead.persona,
+    conflict,
+    strategy: "No tier settled the conflict; the status quo stands",
+    decision: lead.recommendation,
+    notes,
+  }
+}
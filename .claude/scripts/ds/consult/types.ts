@@ -0,0 +1,64 @@
+// Types shared by the persona consultation engine
+
+export type Pattern = "sequential" | "parallel"
+
+/** A persona's position; only personas with veto authority can `block` */
+export type Verdict = "approve" | "concerns" | "reject" | "block"
+
+export const VERDICTS: Verdict[] = ["approve", "concerns", "reject", "block"]
+
+export interface Activation {
+  pattern: Pattern
+  /** Persona names in consultation order */
+  personas: string[]
+  question: string
+  /** Normalized activation, e.g. `🎯 @ProductOwner → 🎨 @DesignEngineer` */
+  handle: string
+}
+
+export interface PersonaPrompt {
+  persona: string
+  system: string
+  prompt: string
+}
+
+export interface PersonaResponse {
+  persona: string
+  emoji: string
+  verdict: Verdict
+  recommendation: string
+  rationale: string[]
+  risks: string[]
+  /** The provider's reply as received */
+  raw: string
+  /** sha256 of the system and user prompt, so a record can be traced to its inputs */
+  promptHash: string
+}
+
+export type DecisionStatus = "accepted" | "accepted-with-concerns" | "rejected" | "blocked"
+
+export interface Resolution {
+  status: DecisionStatus
+  /** Persona whose recommendation became the decision */
+  decidedBy?: string
+  /** Conflict type from the hierarchy, e.g. `Strategic vs Technical` */
+  conflict?: string
+  /** How the conflict was settled */
+  strategy?: string
+  vetoedBy?: string
+  decision: string
+  notes: string[]
+}
+
+export interface Consultation {
+  activation: Activation
+  provider: string
+  /** designSystem.version of system-config.json */
+  configVersion: string
+  /** ISO date (YYYY-MM-DD) */
+  date: string
+  responses: PersonaResponse[]
+  /** Personas a sequential chain never reached because of a veto */
+  skipped: string[]
+  resolution: Resolution
+}
@@ -0,0 +1,60 @@
+// Reads the color custom properties of `:root` and `.dark` from theme CSS, so
+// the audit sees the colors that actually ship, whichever notation they use.
+
+import { parseCssColor, type Oklch } from "../tokens/color"
+import { MODES, type ColorTheme, type Mode } from "../tokens/theme"
+
+export interface ThemeLocation {
+  line: number
+  column: number
+}
+
+export interface ParsedTheme {
+  theme: ColorTheme
+  /** Where each token is declared, per mode */
+  locations: Record<Mode, Record<string, ThemeLocation>>
+}
+
+const SELECTORS: Record<string, Mode> = { ":root": "light", ".dark": "dark" }
+
+function locate(text: string, offset: number): ThemeLocation {
+  const before = text.slice(0, offset)
+  const line = before.split("\n").length
+  return { line, column: offset - before.lastIndexOf("\n") }
+}
+
+export function parseThemeCss(text: string): ParsedTheme {
+  const source = text.replace(/\/\*[\s\S]*?\*\//g, (comment) => " ".repeat(comment.length))
+  const raw: Record<Mode, Record<string, string>> = { light: {}, dark: {} }
+  const locations: ParsedTheme["locations"] = { light: {}, dark: {} }
+
+  const blocks = /(:root|\.dark)\s*\{([^{}]*)\}/g
+  for (let block = blocks.exec(source); block; block = blocks.exec(source)) {
+    const mode = SELECTORS[block[1]]
+    const bodyStart = block.index + block[0].indexOf("{") + 1
+    const declarations = /--([\w-]+)\s*:\s*([^;]+);/g
+    for (let declaration = declarations.exec(block[2]); declaration; declaration = declarations.exec(block[2])) {
+      raw[mode][declaration[1]] = declaration[2].trim()
+      locations[mode][declaration[1]] = locate(text, bodyStart + declaration.index)
+    }
+  }
+
+  const theme = {} as ColorTheme
+  for (const mode of MODES) {
+    // `.dark` only overrides; everything else cascades from `:root`
+    const values = mode === "dark" ? { ...raw.light, ...raw.dark } : raw.light
+    const resolve = (value: string, depth = 0): Oklch | undefined => {
+      const reference = /^var\(--([\w-]+)\)$/.exec(value)
+      if (!reference) return parseCssColor(value)
+      const target = values[reference[1]]
+      return target === undefined || depth > 8 ? undefined : resolve(target, depth + 1)
+    }
+    theme[mode] = {}
+    for (const [name, value] of Object.entries(values)) {
+      const color = resolve(value)
+      if (color) theme[mode][name] = color
+    }
+    if (mode === "dark") locations.dark = { ...locations.light, ...locations.dark }
+  }
+  return { theme, locations }
+}
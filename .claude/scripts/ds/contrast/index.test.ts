@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import { loadFixtureSystem } from "../fixtures/design-system"
+import { buildTheme } from "../tokens/theme"
+import { auditContrast, contrastViolations, describeFix, failures, scorePair } from "./index"
+
+function failing(overrides: Record<string, unknown>) {
+  const system = loadFixtureSystem(overrides)
+  return { system, failing: failures(auditContrast(system)) }
+}
+
+describe("auditContrast", () => {
+  it("reports the playbook's own secondary and accent on the light background", () => {
+    const found = failures(auditContrast(loadFixtureSystem()))
+    expect(found.map(({ mode, pair }) => `${mode} ${pair.foreground} on ${pair.background}`)).toEqual([
+      "light secondary on background",
+      "light accent on background",
+    ])
+    expect(found.every(({ result }) => result.fix)).toBe(true)
+  })
+
+  it("suggests a brand hex in design-config.json for a light-mode brand color", () => {
+    const { system, failing: found } = failing({})
+    const accent = found.find(({ pair }) => pair.foreground === "accent" && pair.background === "background")!
+    expect(accent.mode).toBe("light")
+    expect(accent.result.fix!.setting).toMatchObject({ path: "/branding/brandColors/accent/hex", from: "#F59E0B" })
+
+    // Applying the suggestion makes the rebuilt theme pass
+    const design = structuredClone(system.design)
+    design.branding.brandColors.accent.hex = String(accent.result.fix!.setting.to)
+    const light = buildTheme(design).light
+    expect(scorePair("wcag", light.accent, light.background, light.background)).toBeGreaterThanOrEqual(3)
+  })
+
+  it("moves the surface lightness when a surface pair fails", () => {
+    const { failing: found } = failing({ branding: { theme: { surfaces: { light: { "muted-foreground": 0.75 } } } } })
+    const muted = found.find(({ pair }) => pair.foreground === "muted-foreground")!
+    expect(muted.result.fix!.setting).toMatchObject({ path: "/branding/theme/surfaces/light/muted-foreground", from: 0.75 })
+    expect(Number(muted.result.fix!.setting.to)).toBeLessThan(0.75)
+  })
+
+  it("never points at the generated CSS", () => {
+    const { system, failing: found } = failing({})
+    const [violation] = contrastViolations(auditContrast(system))
+    expect(found.length).toBeGreaterThan(0)
+    expect(violation.suggestion).toMatch(/^design-config\.json#\/branding\/brandColors\/secondary\/hex: "#10B981" → "#[0-9A-F]{6}"/)
+    expect(describeFix(found[0].result.fix!)).not.toContain("--secondary")
+  })
+})
@@ -0,0 +1,306 @@
+// Contrast audit behind `ds contrast` and the color/contrast rule of
+// `ds check`: resolves every text and UI color pair of the theme in light and
+// dark mode and scores it with WCAG 2.1 or APCA. Fixes are design-config.json
+// changes, since the theme CSS is generated from it.
+
+import * as path from "node:path"
+import { DESIGN_CONFIG_FILE, readFromDisk, type DesignConfig, type DesignSystem, type FileReader } from "../config"
+import { getRule } from "../check/rules"
+import { DEFAULT_OUTPUTS } from "../tokens/compile"
+import {
+  apcaContrast,
+  contrastRatio,
+  hexToOklch,
+  oklchToHex,
+  oklchToRgb,
+  toGamut,
+  type Oklch,
+  type Rgb,
+} from "../tokens/color"
+import { buildTheme, DEFAULT_THEME, MODES, type Mode } from "../tokens/theme"
+import type { Violation } from "../types"
+import { parseThemeCss, type ParsedTheme } from "./css"
+
+export const ALGORITHMS = ["wcag", "apca"] as const
+export type ContrastAlgorithm = (typeof ALGORITHMS)[number]
+
+/** `text` pairs carry readable text; `ui` pairs are controls, icons and focus rings */
+export type PairKind = "text" | "ui"
+
+/** WCAG 2.1 AA (1.4.3, 1.4.11) and the APCA Lc levels for body text and non-text elements */
+export const DEFAULT_MINIMUMS: Record<ContrastAlgorithm, Record<PairKind, number>> = {
+  wcag: { text: 4.5, ui: 3 },
+  apca: { text: 60, ui: 45 },
+}
+
+export interface ContrastPair {
+  foreground: string
+  background: string
+  kind: PairKind
+}
+
+/** Smallest OKLCH lightness change to one token that makes the pair pass */
+export interface LightnessFix {
+  token: string
+  from: Oklch
+  to: Oklch
+  /** The design-config.json value that moves the token there */
+  setting: { path: string; from: string | number; to: string | number }
+}
+
+export interface PairScore {
+  /** Ratio for WCAG, absolute Lc for APCA */
+  score: number
+  pass: boolean
+  foreground: Oklch
+  background: Oklch
+  fix?: LightnessFix
+}
+
+export interface PairResult extends ContrastPair {
+  modes: Partial<Record<Mode, PairScore>>
+}
+
+export interface ContrastAudit {
+  algorithm: ContrastAlgorithm
+  minimums: Record<PairKind, number>
+  /** File the colors were read from, relative to the config root */
+  source: string
+  pairs: PairResult[]
+  combinations: string[][]
+  locations: ParsedTheme["locations"]
+}
+
+export function isAlgorithm(value: string): value is ContrastAlgorithm {
+  return (ALGORITHMS as readonly string[]).includes(value)
+}
+
+/** Absolute path of the theme CSS `ds tokens` writes */
+export function themePath(system: DesignSystem): string {
+  return path.resolve(system.root, system.design.tokens?.css ?? DEFAULT_OUTPUTS.css)
+}
+
+/** Reads the theme CSS, or derives the theme when it is not generated yet */
+export function loadTheme(system: DesignSystem, read: FileReader = readFromDisk): ParsedTheme & { source: string } {
+  const file = themePath(system)
+  const source = path.relative(system.root, file)
+  const css = read(file)
+  if (css !== undefined) return { source, ...parseThemeCss(css) }
+  return { source: DESIGN_CONFIG_FILE, theme: buildTheme(system.design), locations: { light: {}, dark: {} } }
+}
+
+/** Every `X` / `X-foreground` pair, text on the page, the focus ring, and each recommended color on the page */
+export function contrastPairs(tokens: Record<string, Oklch>, combinations: string[][]): ContrastPair[] {
+  const pairs: ContrastPair[] = []
+  const add = (foreground: string, background: string, kind: PairKind) => {
+    if (!tokens[foreground] || !tokens[background]) return
+    if (pairs.some((pair) => pair.foreground === foreground && pair.background === background && pair.kind === kind)) return
+    pairs.push({ foreground, background, kind })
+  }
+
+  add("foreground", "background", "text")
+  for (const name of Object.keys(tokens)) add(`${name}-foreground`, name, "text")
+  add("muted-foreground", "background", "text")
+  add("ring", "background", "ui")
+  for (const combination of combinations) {
+    for (const name of combination) add(name, "background", "ui")
+  }
+  return pairs
+}
+
+/** Flattens a translucent color onto `under` */
+function composite(color: Oklch, under: Rgb): Rgb {
+  const rgb = oklchToRgb(toGamut(color))
+  const alpha = color.alpha ?? 1
+  return rgb.map((channel, index) => channel * alpha + under[index] * (1 - alpha)) as Rgb
+}
+
+export function scorePair(algorithm: ContrastAlgorithm, foreground: Oklch, background: Oklch, page: Oklch): number {
+  const bg = composite(background, oklchToRgb(toGamut(page)))
+  const fg = composite(foreground, bg)
+  return algorithm === "wcag" ? contrastRatio(fg, bg) : Math.abs(apcaContrast(fg, bg))
+}
+
+const LIGHTNESS_STEP = 0.001
+
+/** The design-config.json value behind a token's lightness in one mode */
+interface Setting {
+  path: string
+  value: string | number
+  /** Current lightness of the token */
+  l: number
+  /** The config with the token at lightness `l`, and the value that takes */
+  at(l: number): { design: DesignConfig; value: string | number }
+}
+
+function settingFor(design: DesignConfig, token: string, mode: Mode): Setting | undefined {
+  const theme = design.branding.theme ?? DEFAULT_THEME
+  const edit = (change: (copy: DesignConfig & { branding: { theme: typeof theme } }) => void) => {
+    const copy = structuredClone({ ...design, branding: { ...design.branding, theme } })
+    change(copy)
+    return copy
+  }
+  // The focus ring is the primary color
+  const name = token === "ring" ? "primary" : token
+  const brand = design.branding.brandColors[name]
+  if (brand) {
+    const base = hexToOklch(brand.hex)
+    if (mode === "light") {
+      return {
+        path: `/branding/brandColors/${name}/hex`,
+        value: brand.hex,
+        l: base.l,
+        at(l) {
+          const hex = oklchToHex(toGamut({ ...base, l }))
+          return { design: edit((copy) => (copy.branding.brandColors[name].hex = hex)), value: hex }
+        },
+      }
+    }
+    // Dark mode lifts brand colors to a floor; only colors at the floor move with it
+    if (base.l > theme.darkBrandMinLightness) return undefined
+    return {
+      path: "/branding/theme/darkBrandMinLightness",
+      value: theme.darkBrandMinLightness,
+      l: theme.darkBrandMinLightness,
+      at: (l) => ({ design: edit((copy) => (copy.branding.theme.darkBrandMinLightness = l)), value: l }),
+    }
+  }
+  const surface = theme.surfaces[mode][token]
+  if (surface === undefined) return undefined
+  return {
+    path: `/branding/theme/surfaces/${mode}/${token}`,
+    value: surface,
+    l: surface,
+    at: (l) => ({ design: edit((copy) => (copy.branding.theme.surfaces[mode][token] = l)), value: l }),
+  }
+}
+
+/**
+ * Searches outward from the current value of each config setting behind the
+ * pair for the first one that passes. Each candidate rebuilds the theme, so
+ * derived tokens such as `-foreground` partners follow along.
+ */
+function suggestFix(
+  algorithm: ContrastAlgorithm,
+  minimum: number,
+  pair: ContrastPair,
+  mode: Mode,
+  design: DesignConfig,
+  tokens: Record<string, Oklch>,
+): LightnessFix | undefined {
+  // UI pairs sit on the page background, which is not a token to move for one control
+  const adjustable = pair.kind === "ui" ? [pair.foreground] : [pair.foreground, pair.background]
+  let best: { fix: LightnessFix; delta: number } | undefined
+
+  for (const token of adjustable) {
+    const setting = settingFor(design, token, mode)
+    if (!setting) continue
+    for (let delta = LIGHTNESS_STEP; delta <= 1 && (!best || delta < best.delta); delta += LIGHTNESS_STEP) {
+      const candidates = [setting.l - delta, setting.l + delta]
+        .filter((l) => l >= 0 && l <= 1)
+        .map((l) => setting.at(Number(l.toFixed(3))))
+      const passing = candidates.find((candidate) => {
+        const next = buildTheme(candidate.design)[mode]
+        if (!next[pair.foreground] || !next[pair.background]) return false
+        return scorePair(algorithm, next[pair.foreground], next[pair.background], next.background ?? next[pair.background]) >= minimum
+      })
+      if (passing) {
+        const fix = {
+          token,
+          from: tokens[token],
+          to: buildTheme(passing.design)[mode][token],
+          setting: { path: setting.path, from: setting.value, to: passing.value },
+        }
+        best = { fix, delta }
+        break
+      }
+    }
+  }
+  return best?.fix
+}
+
+export interface AuditOptions {
+  algorithm?: ContrastAlgorithm
+  /** Reads the theme CSS; from disk unless given */
+  read?: FileReader
+}
+
+export function auditContrast(system: DesignSystem, options: AuditOptions = {}): ContrastAudit {
+  const settings = system.design.contrast ?? {}
+  const algorithm = options.algorithm ?? settings.algorithm ?? "wcag"
+  // Configured minimums belong to the configured algorithm
+  const configured = algorithm === (settings.algorithm ?? "wcag") ? settings : {}
+  const minimums = {
+    text: configured.text ?? DEFAULT_MINIMUMS[algorithm].text,
+    ui: configured.ui ?? DEFAULT_MINIMUMS[algorithm].ui,
+  }
+
+  const { source, theme, locations } = loadTheme(system, options.read)
+  const combinations = system.colors.recommended
+  const pairs: PairResult[] = contrastPairs(theme.light, combinations).map((pair) => ({ ...pair, modes: {} }))
+
+  for (const mode of MODES) {
+    const tokens = theme[mode]
+    for (const pair of pairs) {
+      const foreground = tokens[pair.foreground]
+      const background = tokens[pair.background]
+      if (!foreground || !background) continue
+      const score = scorePair(algorithm, foreground, background, tokens.background ?? background)
+      const pass = score >= minimums[pair.kind]
+      pair.modes[mode] = {
+        score,
+        pass,
+        foreground,
+        background,
+        fix: pass ? undefined : suggestFix(algorithm, minimums[pair.kind], pair, mode, system.design, tokens),
+      }
+    }
+  }
+  return { algorithm, minimums, source, pairs, combinations, locations }
+}
+
+export function formatScore(algorithm: ContrastAlgorithm, score: number): string {
+  // Truncated, not rounded, so 4.499 never reads as a passing 4.5
+  const value = Math.floor(score * (algorithm === "wcag" ? 100 : 10)) / (algorithm === "wcag" ? 100 : 10)
+  return algorithm === "wcag" ? `${value}:1` : `Lc ${value}`
+}
+
+export function describeFix(fix: LightnessFix): string {
+  const delta = fix.to.l - fix.from.l
+  const { path: pointer, from, to } = fix.setting
+  return (
+    `${DESIGN_CONFIG_FILE}#${pointer}: ${JSON.stringify(from)} → ${JSON.stringify(to)} ` +
+    `(${fix.token} L ${delta > 0 ? "+" : "−"}${Math.abs(delta).toFixed(3)}), then npm run design:tokens`
+  )
+}
+
+export function failures(audit: ContrastAudit): { pair: PairResult; mode: Mode; result: PairScore }[] {
+  return audit.pairs.flatMap((pair) =>
+    MODES.flatMap((mode) => {
+      const result = pair.modes[mode]
+      return result && !result.pass ? [{ pair, mode, result }] : []
+    }),
+  )
+}
+
+/** Failing pairs as `color/contrast` violations against the theme file */
+export function contrastViolations(audit: ContrastAudit): Violation[] {
+  const rule = getRule("color/contrast")
+  return failures(audit).map(({ pair, mode, result }) => {
+    const token = result.fix?.token ?? pair.foreground
+    const location = audit.locations[mode][token] ?? { line: 1, column: 1 }
+    const minimum = audit.minimums[pair.kind]
+    return {
+      ruleId: rule.id,
+      severity: rule.severity,
+      message:
+        `${pair.foreground} on ${pair.background} is ${formatScore(audit.algorithm, result.score)} in ${mode} mode, ` +
+        `below the ${formatScore(audit.algorithm, minimum)} ${pair.kind === "text" ? "text" : "UI element"} minimum`,
+      file: audit.source,
+      line: location.line,
+      column: location.column,
+      source: `${pair.foreground} on ${pair.background} (${mode})`,
+      suggestion: result.fix ? describeFix(result.fix) : undefined,
+    }
+  })
+}
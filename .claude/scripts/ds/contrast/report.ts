@@ -0,0 +1,148 @@
+// Contrast matrix reports for design reviews: Markdown for humans, JSON for tools.
+
+import { formatOklch, oklchToHex } from "../tokens/color"
+import { MODES, type Mode } from "../tokens/theme"
+import { describeFix, failures, formatScore, type ContrastAudit, type PairResult, type PairScore } from "./index"
+
+export const CONTRAST_FORMATS = ["markdown", "json"] as const
+export type ContrastFormat = (typeof CONTRAST_FORMATS)[number]
+
+export function isContrastFormat(value: string): value is ContrastFormat {
+  return (CONTRAST_FORMATS as readonly string[]).includes(value)
+}
+
+const ALGORITHM_NAMES = { wcag: "WCAG 2.1", apca: "APCA" }
+
+function cell(audit: ContrastAudit, result: PairScore | undefined): string {
+  if (!result) return "—"
+  return `${formatScore(audit.algorithm, result.score)} ${result.pass ? "✅" : "❌"}`
+}
+
+function find(audit: ContrastAudit, foreground: string, background: string): PairResult | undefined {
+  return audit.pairs.find((pair) => pair.foreground === foreground && pair.background === background)
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ]
+}
+
+export function renderMarkdown(audit: ContrastAudit): string {
+  const name = ALGORITHM_NAMES[audit.algorithm]
+  const failing = failures(audit)
+  const lines = [
+    "# Color Contrast Audit",
+    "",
+    `${name} contrast of the theme in \`${audit.source}\`. ` +
+      `Minimums: ${formatScore(audit.algorithm, audit.minimums.text)} for text, ` +
+      `${formatScore(audit.algorithm, audit.minimums.ui)} for UI elements.`,
+    "",
+    failing.length
+      ? `❌ ${failing.length} failing pair(s) across light and dark mode.`
+      : "✅ Every pair passes in light and dark mode.",
+    "",
+    "## Token Pairs",
+    "",
+    ...table(
+      ["Foreground", "Background", "Use", "Light", "Dark"],
+      audit.pairs.map((pair) => [
+        `\`${pair.foreground}\``,
+        `\`${pair.background}\``,
+        pair.kind === "text" ? "text" : "UI",
+        cell(audit, pair.modes.light),
+        cell(audit, pair.modes.dark),
+      ]),
+    ),
+  ]
+
+  if (audit.combinations.length) {
+    lines.push("", "## Recommended Combinations")
+    for (const combination of audit.combinations) {
+      lines.push(
+        "",
+        `### ${combination.join(" + ")}`,
+        "",
+        ...table(
+          ["Color", "On background (light)", "On background (dark)", "With -foreground (light)", "With -foreground (dark)"],
+          combination.map((color) => {
+            const onPage = find(audit, color, "background")
+            const withText = find(audit, `${color}-foreground`, color)
+            return [
+              `\`${color}\``,
+              cell(audit, onPage?.modes.light),
+              cell(audit, onPage?.modes.dark),
+              cell(audit, withText?.modes.light),
+              cell(audit, withText?.modes.dark),
+            ]
+          }),
+        ),
+      )
+    }
+  }
+
+  if (failing.length) {
+    lines.push("", "## Suggested Fixes", "")
+    for (const { pair, mode, result } of failing) {
+      const fix = result.fix ? `\`${describeFix(result.fix)}\`` : "no lightness change passes; change the hue or chroma"
+      lines.push(`- **${pair.foreground} on ${pair.background}** (${mode}): ${fix}`)
+    }
+  }
+  return `${lines.join("\n")}\n`
+}
+
+function color(value: PairScore["foreground"]) {
+  return { oklch: formatOklch(value), hex: oklchToHex(value) }
+}
+
+export function renderJson(audit: ContrastAudit): string {
+  const modes = (pair: PairResult) =>
+    Object.fromEntries(
+      MODES.flatMap((mode: Mode) => {
+        const result = pair.modes[mode]
+        if (!result) return []
+        return [
+          [
+            mode,
+            {
+              score: Number(result.score.toFixed(2)),
+              pass: result.pass,
+              foreground: color(result.foreground),
+              background: color(result.background),
+              ...(result.fix
+                ? {
+                    fix: {
+                      token: result.fix.token,
+                      from: color(result.fix.from),
+                      to: color(result.fix.to),
+                      setting: result.fix.setting,
+                    },
+                  }
+                : {}),
+            },
+          ],
+        ]
+      }),
+    )
+
+  const report = {
+    algorithm: audit.algorithm,
+    minimums: audit.minimums,
+    source: audit.source,
+    summary: { pairs: audit.pairs.length, failures: failures(audit).length },
+    pairs: audit.pairs.map((pair) => ({
+      foreground: pair.foreground,
+      background: pair.background,
+      kind: pair.kind,
+      ...modes(pair),
+    })),
+    combinations: audit.combinations,
+  }
+  return JSON.stringify(report, null, 2)
+}
+
+export function formatContrast(audit: ContrastAudit, kind: ContrastFormat): string {
+  return kind === "json" ? renderJson(audit) : renderMarkdown(audit)
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { unifiedDiff } from "./diff"
+
+describe("unifiedDiff", () => {
+  it("is empty when nothing changed", () => {
+    expect(unifiedDiff("a.tsx", "same", "same")).toBe("")
+  })
+
+  it("merges changes whose context overlaps into one hunk", () => {
+    const before = Array.from({ length: 16 }, (_, i) => `line ${i + 1}`)
+    const after = [...before]
+    after[1] = "changed 2"
+    after[4] = "changed 5"
+    after[15] = "changed 16"
+    expect(unifiedDiff("a.tsx", before.join("\n"), after.join("\n")).split("\n")).toEqual([
+      "--- a/a.tsx",
+      "+++ b/a.tsx",
+      "@@ -1,8 +1,8 @@",
+      " line 1",
+      "-line 2",
+      "+changed 2",
+      " line 3",
+      " line 4",
+      "-line 5",
+      "+changed 5",
+      " line 6",
+      " line 7",
+      " line 8",
+      "@@ -13,4 +13,4 @@",
+      " line 13",
+      " line 14",
+      " line 15",
+      "-line 16",
+      "+changed 16",
+    ])
+  })
+})
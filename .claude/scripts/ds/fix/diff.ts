@@ -0,0 +1,52 @@
+// Unified diff for `ds auto --dry-run`
+
+const CONTEXT = 3
+
+interface Hunk {
+  start: number
+  end: number
+}
+
+/**
+ * Codemod fixes replace tokens within a line, so both sides have the same
+ * line count and lines can be compared index by index.
+ */
+export function unifiedDiff(file: string, before: string, after: string): string {
+  if (before === after) return ""
+  const a = before.split("\n")
+  const b = after.split("\n")
+  if (a.length !== b.length) {
+    return [
+      `--- a/${file}`,
+      `+++ b/${file}`,
+      `@@ -1,${a.length} +1,${b.length} @@`,
+      ...a.map((line) => `-${line}`),
+      ...b.map((line) => `+${line}`),
+    ].join("\n")
+  }
+
+  const hunks: Hunk[] = []
+  a.forEach((line, index) => {
+    if (line === b[index]) return
+    const start = Math.max(0, index - CONTEXT)
+    const end = Math.min(a.length, index + CONTEXT + 1)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last.end) last.end = end
+    else hunks.push({ start, end })
+  })
+
+  const lines = [`--- a/${file}`, `+++ b/${file}`]
+  for (const hunk of hunks) {
+    const count = hunk.end - hunk.start
+    lines.push(`@@ -${hunk.start + 1},${count} +${hunk.start + 1},${count} @@`)
+    for (let index = hunk.start; index < hunk.end; index++) {
+      if (a[index] === b[index]) {
+        lines.push(` ${a[index]}`)
+      } else {
+        lines.push(`-${a[index]}`)
+        lines.push(`+${b[index]}`)
+      }
+    }
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { FIXABLE_RULES } from "../check/rules"
+import { COMPLIANCE } from "../fixtures/compliance"
+import { applyFixes, fixSource } from "."
+
+describe("applyFixes", () => {
+  it("applies fixes back to front and drops one that overlaps a later fix", () => {
+    const fixes = [
+      { start: 0, end: 3, text: "p-4" },
+      { start: 4, end: 7, text: "m-2" },
+      { start: 2, end: 5, text: "x" },
+    ]
+    expect(applyFixes("p-5 m-7", fixes)).toBe("p-4 m-2")
+  })
+})
+
+describe("fixSource", () => {
+  it("rewrites only the offending tokens and keeps everything around them", () => {
+    const text = [
+      "export const Card = () => (",
+      "  <div",
+      "    className={cn(",
+      '      "p-[25px] bg-blue-500", // padding',
+      '      active && "font-light text-[15px]",',
+      "    )}",
+      "  />",
+      ")",
+    ].join("\n")
+    const { output, applied } = fixSource("Card.tsx", text, COMPLIANCE, FIXABLE_RULES)
+    expect(output).toBe(text.replace("p-[25px] bg-blue-500", "p-6 bg-primary").replace("font-light text-[15px]", "font-normal text-base"))
+    expect(applied).toHaveLength(4)
+  })
+
+  it("is idempotent", () => {
+    const once = fixSource("Card.tsx", '<Button className="h-9 md:px-[18px]" />', COMPLIANCE, FIXABLE_RULES).output
+    expect(once).toBe('<Button className="h-10 md:px-5" />')
+    expect(fixSource("Card.tsx", once, COMPLIANCE, FIXABLE_RULES).applied).toEqual([])
+  })
+
+  it("only applies the selected rules and reports violations it cannot fix", () => {
+    const text = '<div className="p-[25px] bg-red-700" style={{ padding: 10 }} />'
+    const { output, applied, skipped } = fixSource("Box.tsx", text, COMPLIANCE, ["spacing/off-grid"])
+    expect(output).toBe('<div className="p-6 bg-red-700" style={{ padding: 10 }} />')
+    expect(applied.map(({ violation }) => violation.source)).toEqual(["p-[25px]"])
+    expect(skipped.map(({ violation }) => violation.ruleId)).toEqual(["spacing/off-grid"])
+  })
+
+  it("leaves suppressed violations alone", () => {
+    const text = '{/* ds-disable-next-line */}\n<div className="p-[25px]" />'
+    expect(fixSource("Box.tsx", text, COMPLIANCE, FIXABLE_RULES).output).toBe(text)
+  })
+})
@@ -0,0 +1,41 @@
+// Autofix codemod behind `ds auto`. Fixes are token-level replacements taken
+// from the checker's suggestions, so everything around a class token (quotes,
+// line breaks, comments inside cn()/cva() calls) stays byte-for-byte the same.
+
+import type { ComplianceConfig } from "../config"
+import { analyzeSource, type Fix, type Located } from "../check"
+
+export interface FixResult {
+  output: string
+  applied: Located[]
+  /** Violations of enabled rules with no mechanical fix */
+  skipped: Located[]
+}
+
+/** Applies non-overlapping fixes, last first so earlier offsets stay valid */
+export function applyFixes(text: string, fixes: Fix[]): string {
+  let output = text
+  let limit = Number.POSITIVE_INFINITY
+  for (const fix of [...fixes].sort((a, b) => b.start - a.start)) {
+    if (fix.end > limit) continue
+    output = output.slice(0, fix.start) + fix.text + output.slice(fix.end)
+    limit = fix.start
+  }
+  return output
+}
+
+export function fixSource(file: string, text: string, config: ComplianceConfig, rules: string[]): FixResult {
+  const applied: Located[] = []
+  const skipped: Located[] = []
+  const claimed = new Set<number>()
+  for (const located of analyzeSource(file, text, config)) {
+    if (!rules.includes(located.violation.ruleId)) continue
+    if (!located.fix) {
+      skipped.push(located)
+    } else if (!claimed.has(located.fix.start)) {
+      claimed.add(located.fix.start)
+      applied.push(located)
+    }
+  }
+  return { output: applyFixes(text, applied.map((located) => located.fix!)), applied, skipped }
+}
@@ -0,0 +1,17 @@
+// Compliance config the unit tests check against: the playbook defaults,
+// fixed here so the tests do not move when design-config.json does.
+
+import type { ComplianceConfig } from "../config"
+
+export const COMPLIANCE: ComplianceConfig = {
+  fontFamily: "Mulish",
+  fontWeights: [400, 500, 600, 700],
+  fontSizes: [12, 14, 16, 18, 20, 24, 32, 40, 48],
+  maxFontSize: 48,
+  spacingScale: [4, 8, 12, 16, 20, 24, 28, 32, 40, 48, 56, 64, 80, 96, 128],
+  colorTokens: ["primary", "secondary", "accent", "destructive", "background", "foreground", "muted", "border"],
+  componentHeights: { Button: [32, 40, 48, 56], Input: [40] },
+  standardHeight: 40,
+  colorMap: { white: "background", "blue-500": "primary", "gray-500": "muted-foreground" },
+  brandHex: { "#3b82f6": "primary", "#10b981": "secondary" },
+}
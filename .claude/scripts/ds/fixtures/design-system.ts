@@ -0,0 +1,21 @@
+// The playbook's design system with per-test overrides, layered through
+// `extends` the way product teams layer theirs.
+
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { fileURLToPath } from "node:url"
+import { DESIGN_CONFIG_FILE, loadDesignSystem, type DesignSystem } from "../config"
+
+export const PLAYBOOK_ROOT = fileURLToPath(new URL("../../../../", import.meta.url))
+
+export function loadFixtureSystem(overrides: Record<string, unknown> = {}): DesignSystem {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "ds-config-"))
+  try {
+    const config = { extends: path.join(PLAYBOOK_ROOT, DESIGN_CONFIG_FILE), ...overrides }
+    fs.writeFileSync(path.join(directory, DESIGN_CONFIG_FILE), JSON.stringify(config))
+    return loadDesignSystem(directory)
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true })
+  }
+}
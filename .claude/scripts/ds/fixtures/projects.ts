@@ -0,0 +1,22 @@
+// Minimal projects as create-next-app and create-vite lay them out, copied to
+// a temporary directory for each install test:
+//
+//   next-app/    app router under src/, `@/*` alias, Tailwind imported from src/app/globals.css
+//   next-pages/  pages router at the root, `~/*` alias, its own styles/globals.css and postcss.config.js
+//   vite/        Vite + React, paths in tsconfig.app.json, Tailwind imported from src/index.css
+
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { fileURLToPath } from "node:url"
+
+export type FixtureProject = "next-app" | "next-pages" | "vite"
+
+const PROJECTS = fileURLToPath(new URL("./projects/", import.meta.url))
+
+/** A fresh copy of a fixture project; remove it with `fs.rmSync(root, { recursive: true })` */
+export function copyProject(name: FixtureProject): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), `ds-${name}-`))
+  fs.cpSync(path.join(PROJECTS, name), root, { recursive: true })
+  return root
+}
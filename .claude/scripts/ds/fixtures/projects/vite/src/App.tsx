@@ -0,0 +1,3 @@
+export default function App() {
+  return <h1 className="text-2xl font-semibold">Hello</h1>
+}
@@ -0,0 +1,16 @@
+// Stand-ins for the shadcn/ui components the DS components wrap: the props of
+// Button, Input, Card and Label, rendered as bare elements, and a cn() without
+// tailwind-merge, so the classes a test sees are only those the DS layer adds.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { fileURLToPath } from "node:url"
+
+const STUBS = fileURLToPath(new URL("./shadcn/", import.meta.url))
+
+/** Writes the stubs where shadcn's default aliases point: `@/components/ui` and `@/lib/utils` */
+export function writeShadcnStubs(sourceRoot: string): void {
+  fs.cpSync(path.join(STUBS, "ui"), path.join(sourceRoot, "components/ui"), { recursive: true })
+  fs.mkdirSync(path.join(sourceRoot, "lib"), { recursive: true })
+  fs.copyFileSync(path.join(STUBS, "utils.ts"), path.join(sourceRoot, "lib/utils.ts"))
+}
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+export function Button({
+  variant: _variant,
+  size: _size,
+  asChild: _asChild,
+  ...props
+}: React.ComponentProps<"button"> & {
+  variant?: "default" | "destructive" | "outline" | "secondary" | "ghost" | "link"
+  size?: "default" | "sm" | "lg" | "icon"
+  asChild?: boolean
+}) {
+  return <button {...props} />
+}
@@ -0,0 +1,5 @@
+import * as React from "react"
+
+export function Card(props: React.ComponentProps<"div">) {
+  return <div {...props} />
+}
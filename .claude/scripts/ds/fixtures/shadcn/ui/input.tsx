@@ -0,0 +1,5 @@
+import * as React from "react"
+
+export function Input(props: React.ComponentProps<"input">) {
+  return <input {...props} />
+}
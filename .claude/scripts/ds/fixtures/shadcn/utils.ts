@@ -0,0 +1,3 @@
+export function cn(...inputs: (string | false | null | undefined)[]) {
+  return inputs.filter(Boolean).join(" ")
+}
@@ -0,0 +1,51 @@
+import * as fs from "node:fs"
+import { afterEach, describe, expect, it } from "vitest"
+import { copyProject, type FixtureProject } from "../fixtures/projects"
+import { detectProject, resolveAlias } from "./detect"
+
+const roots: string[] = []
+
+function project(name: FixtureProject): string {
+  const root = copyProject(name)
+  roots.push(root)
+  return root
+}
+
+afterEach(() => {
+  for (const root of roots.splice(0)) fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe("detectProject", () => {
+  it("finds the Next.js app router under src/", () => {
+    expect(detectProject(project("next-app"))).toMatchObject({
+      framework: "next-app",
+      sourceDir: "src",
+      alias: "@",
+      stylesheet: "src/app/globals.css",
+      outputs: { css: "src/app/design-system.css", typescript: "src/lib/tokens.ts", components: "src/components/ds" },
+    })
+  })
+
+  it("finds the pages router at the root and its alias", () => {
+    expect(detectProject(project("next-pages"))).toMatchObject({
+      framework: "next-pages",
+      sourceDir: "",
+      alias: "~",
+      stylesheet: "styles/globals.css",
+      outputs: { css: "styles/design-system.css", typescript: "lib/tokens.ts", components: "components/ds" },
+    })
+  })
+
+  it("reads Vite paths from tsconfig.app.json and keeps src/index.css the project's", () => {
+    const detected = detectProject(project("vite"))
+    expect(detected).toMatchObject({ framework: "vite", sourceDir: "src", alias: "@", stylesheet: "src/index.css", outputs: { css: "src/design-system.css" } })
+    expect(resolveAlias(detected, "@/lib/utils")).toBe("src/lib/utils.ts")
+    expect(resolveAlias(detected, "~/lib/utils")).toBeUndefined()
+  })
+
+  it("refuses a project without an alias onto its sources", () => {
+    const root = project("next-app")
+    fs.writeFileSync(`${root}/tsconfig.json`, "{}")
+    expect(() => detectProject(root)).toThrow('Add "paths": { "@/*": ["./src/*"] } to tsconfig.json first.')
+  })
+})
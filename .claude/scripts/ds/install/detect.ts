@@ -0,0 +1,99 @@
+// Works out how a project is laid out before `ds init` writes anything: the
+// framework and router, whether sources live under src/, and the import alias
+// its tsconfig already maps onto them. shadcn/ui and the DS components import
+// through that alias, so a project without one is refused rather than guessed.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { readCompilerOptions } from "../check/graph"
+import type { DesignConfig } from "../config"
+
+export type Framework = "next-app" | "next-pages" | "vite"
+
+export type TokenOutputs = Required<NonNullable<DesignConfig["tokens"]>>
+
+export interface Project {
+  root: string
+  framework: Framework
+  /** Directory holding the sources, relative to root ("" for the root itself) */
+  sourceDir: string
+  /** Import prefix mapped onto sourceDir, e.g. "@" for `"@/*": ["./src/*"]` */
+  alias: string
+  /** The stylesheet the app entry imports; it stays the project's and imports the generated theme */
+  stylesheet: string
+  /** Where `ds tokens` writes in this layout */
+  outputs: TokenOutputs
+}
+
+const VITE_CONFIGS = ["vite.config.ts", "vite.config.mts", "vite.config.js", "vite.config.mjs"]
+
+/** Vite templates keep their paths in tsconfig.app.json, referenced from tsconfig.json */
+const TSCONFIGS = ["tsconfig.json", "tsconfig.app.json"]
+
+function readPackage(root: string): Record<string, Record<string, string> | undefined> {
+  const file = path.join(root, "package.json")
+  if (!fs.existsSync(file)) throw new Error(`No package.json in ${root}. Is this a React project?`)
+  return JSON.parse(fs.readFileSync(file, "utf8"))
+}
+
+function findAlias(root: string, sourceDir: string): string {
+  const target = path.resolve(root, sourceDir)
+  for (const name of TSCONFIGS) {
+    if (!fs.existsSync(path.join(root, name))) continue
+    const options = readCompilerOptions(root, name)
+    for (const [key, targets] of Object.entries(options.paths ?? {})) {
+      if (!key.endsWith("/*")) continue
+      const base = options.baseUrl ?? root
+      if (targets.some((entry) => entry.endsWith("/*") && path.resolve(base, entry.slice(0, -2)) === target)) {
+        return key.slice(0, -2)
+      }
+    }
+  }
+  const directory = sourceDir ? `./${sourceDir}/*` : "./*"
+  throw new Error(
+    `No tsconfig path alias points at ${sourceDir || "the project root"}. Add "paths": { "@/*": ["${directory}"] } to tsconfig.json first.`,
+  )
+}
+
+export function detectProject(root: string): Project {
+  const pkg = readPackage(root)
+  const dependencies = { ...pkg.dependencies, ...pkg.devDependencies }
+  const has = (entry: string) => fs.existsSync(path.join(root, entry))
+
+  let framework: Framework
+  let sourceDir: string
+  let stylesheet: string
+  if ("next" in dependencies) {
+    sourceDir = has("src/app") || has("src/pages") || (has("src") && !has("app") && !has("pages")) ? "src" : ""
+    // A project with neither router yet gets the app router, as create-next-app does
+    framework = has(path.join(sourceDir, "app")) || !has(path.join(sourceDir, "pages")) ? "next-app" : "next-pages"
+    stylesheet = path.posix.join(sourceDir, framework === "next-app" ? "app/globals.css" : "styles/globals.css")
+  } else if ("vite" in dependencies || VITE_CONFIGS.some(has)) {
+    framework = "vite"
+    sourceDir = "src"
+    stylesheet = "src/index.css"
+  } else {
+    throw new Error(`${root} is neither a Next.js nor a Vite project (no "next" or "vite" in package.json)`)
+  }
+
+  return {
+    root,
+    framework,
+    sourceDir,
+    alias: findAlias(root, sourceDir),
+    stylesheet,
+    outputs: {
+      // The generated theme sits beside the stylesheet that imports it
+      css: path.posix.join(path.posix.dirname(stylesheet), "design-system.css"),
+      typescript: path.posix.join(sourceDir, "lib/tokens.ts"),
+      dtcg: "design-tokens.json",
+      components: path.posix.join(sourceDir, "components/ds"),
+    },
+  }
+}
+
+/** Project-relative file for an aliased specifier such as `@/lib/utils`, if it uses the project's alias */
+export function resolveAlias(project: Project, specifier: string, extension = ".ts"): string | undefined {
+  if (!specifier.startsWith(`${project.alias}/`)) return undefined
+  return path.posix.join(project.sourceDir, specifier.slice(project.alias.length + 1)) + extension
+}
@@ -0,0 +1,162 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { afterEach, describe, expect, it } from "vitest"
+import { copyProject, type FixtureProject } from "../fixtures/projects"
+import { applyPlan, applyRollback, planInstall, planRollback, playbookVersion, PLAYBOOK_ROOT } from "./index"
+import { openState } from "./state"
+
+const roots: string[] = []
+
+function project(name: FixtureProject): string {
+  const root = copyProject(name)
+  roots.push(root)
+  return root
+}
+
+afterEach(() => {
+  for (const root of roots.splice(0)) fs.rmSync(root, { recursive: true, force: true })
+})
+
+const read = (root: string, file: string) => fs.readFileSync(path.join(root, file), "utf8")
+const edit = (root: string, file: string, change: (text: string) => string) =>
+  fs.writeFileSync(path.join(root, file), change(read(root, file)))
+const install = (root: string) => applyPlan(planInstall(PLAYBOOK_ROOT, root), PLAYBOOK_ROOT)
+const changed = (root: string) => planInstall(PLAYBOOK_ROOT, root).changes.filter((change) => change.action !== "unchanged")
+
+describe("install", () => {
+  it.each(["next-app", "next-pages", "vite"] as const)("changes nothing when %s is installed again", (name) => {
+    const root = project(name)
+    const first = install(root)
+    expect(first.backup).toBeDefined()
+    expect(changed(root)).toEqual([])
+
+    const again = install(root)
+    expect(again.backup).toBeUndefined()
+    expect(again.manifest).toEqual(first.manifest)
+    expect(openState(root).versions()).toEqual([playbookVersion(PLAYBOOK_ROOT)])
+  })
+
+  it("generates the Vite theme beside src/index.css and wires Tailwind's Vite plugin", () => {
+    const root = project("vite")
+    const plan = planInstall(PLAYBOOK_ROOT, root)
+    applyPlan(plan, PLAYBOOK_ROOT)
+
+    expect(read(root, "src/index.css")).toBe('@import "./design-system.css";\n\n#root {\n  min-height: 100vh;\n}\n')
+    expect(read(root, "src/design-system.css")).toContain('@import "tailwindcss";')
+    expect(read(root, "vite.config.ts")).toContain("import tailwindcss from '@tailwindcss/vite'\n")
+    expect(read(root, "vite.config.ts")).toContain("plugins: [tailwindcss(), react()],")
+    expect(plan.missing.devDependencies).toContain("@tailwindcss/vite")
+    // The entry stylesheet stays the project's, out of the manifest
+    expect(Object.keys(openState(root).manifest()!.files)).not.toContain("src/index.css")
+  })
+
+  it("generates the Next.js app router theme beside globals.css and writes a PostCSS config", () => {
+    const root = project("next-app")
+    const plan = planInstall(PLAYBOOK_ROOT, root)
+    applyPlan(plan, PLAYBOOK_ROOT)
+
+    expect(read(root, "src/app/globals.css")).toBe('@import "./design-system.css";\n\nbody {\n  -webkit-font-smoothing: antialiased;\n}\n')
+    expect(read(root, "src/app/design-system.css")).toContain('@import "tailwindcss";')
+    expect(read(root, "postcss.config.mjs")).toContain('"@tailwindcss/postcss": {},')
+    expect(plan.missing.devDependencies).toContain("@tailwindcss/postcss")
+    expect(plan.missing.devDependencies).not.toContain("@tailwindcss/vite")
+  })
+
+  it("keeps the pages router's own globals.css rules and adds Tailwind to its PostCSS config", () => {
+    const root = project("next-pages")
+    const original = read(root, "styles/globals.css")
+    const plan = planInstall(PLAYBOOK_ROOT, root)
+    applyPlan(plan, PLAYBOOK_ROOT)
+
+    expect(read(root, "styles/globals.css")).toBe(`@import "./design-system.css";\n${original}`)
+    expect(read(root, "styles/design-system.css")).toContain('@import "tailwindcss";')
+    expect(read(root, "postcss.config.js")).toBe('module.exports = {\n  plugins: {\n    "@tailwindcss/postcss": {},\n    autoprefixer: {},\n  },\n}\n')
+    expect(fs.existsSync(path.join(root, "postcss.config.mjs"))).toBe(false)
+    expect(plan.missing.devDependencies).toContain("@tailwindcss/postcss")
+    expect(Object.keys(openState(root).manifest()!.files)).not.toContain("styles/globals.css")
+  })
+
+  it("moves a theme an earlier install generated into src/index.css out of the way", () => {
+    const root = project("vite")
+    install(root)
+    // As installs before the theme had its own file left it
+    const state = openState(root)
+    const manifest = state.manifest()!
+    const theme = read(root, "src/design-system.css")
+    fs.writeFileSync(path.join(root, "src/index.css"), theme)
+    const sha256 = state.put(theme)
+    state.saveManifest({ ...manifest, files: { ...manifest.files, "src/index.css": { sha256, owner: "generated", base: sha256 } } })
+
+    expect(changed(root)).toEqual([
+      expect.objectContaining({ path: "src/index.css", action: "update", note: "theme moved to src/design-system.css" }),
+    ])
+    edit(root, "src/index.css", (text) => `${text}\n.local {}\n`)
+    expect(changed(root)).toEqual([expect.objectContaining({ path: "src/index.css", action: "keep" })])
+  })
+
+  it("three-way merges local edits to the token CSS into a regenerated theme", () => {
+    const root = project("next-app")
+    install(root)
+    const css = "src/app/design-system.css"
+    edit(root, css, (text) => text.replace("--radius:", "--brand-glow: 0 0 8px;\n  --radius:"))
+    edit(root, "design-config.json", (text) => text.replace("#3B82F6", "#7C3AED"))
+
+    const change = changed(root).find((entry) => entry.path === css)!
+    expect(change).toMatchObject({ action: "merge", note: "local edits kept" })
+    expect(change.contents).toContain("--brand-glow: 0 0 8px;")
+    expect(change.contents).toContain("/* #7C3AED */")
+  })
+
+  it("writes conflict markers when the same token changed on both sides", () => {
+    const root = project("next-app")
+    install(root)
+    const css = "src/app/design-system.css"
+    edit(root, css, (text) => text.replace(/--primary: [^;]+;/, "--primary: oklch(0.5 0.2 20);"))
+    edit(root, "design-config.json", (text) => text.replace("#3B82F6", "#7C3AED"))
+
+    const plan = planInstall(PLAYBOOK_ROOT, root)
+    expect(plan.changes.find((entry) => entry.path === css)).toMatchObject({ action: "conflict", note: "1 conflict; resolve the <<<<<<< markers" })
+    applyPlan(plan, PLAYBOOK_ROOT)
+    expect(read(root, css)).toMatch(/<<<<<<< local\n  --primary: oklch\(0\.5 0\.2 20\);[^=]*=======\n  --primary: [^\n]*#7C3AED[^>]*>>>>>>> playbook /)
+  })
+})
+
+describe("rollback", () => {
+  it("restores a backup, and the rollback's own backup undoes it", () => {
+    const root = project("next-pages")
+    const original = read(root, "styles/globals.css")
+    const { backup } = install(root)
+    const installed = read(root, "styles/globals.css")
+    expect(installed).not.toBe(original)
+
+    const undo = applyRollback(root, planRollback(root, backup!))
+    expect(read(root, "styles/globals.css")).toBe(original)
+    expect(fs.existsSync(path.join(root, "components.json"))).toBe(false)
+    expect(openState(root).manifest()).toBeNull()
+
+    applyRollback(root, planRollback(root, undo!))
+    expect(read(root, "styles/globals.css")).toBe(installed)
+    expect(openState(root).manifest()).not.toBeNull()
+  })
+
+  it("restores the playbook files of an installed version but keeps edited project files", () => {
+    const root = project("next-app")
+    install(root)
+    const version = playbookVersion(PLAYBOOK_ROOT)
+    edit(root, "DESIGN-SYSTEM-SPECS.md", (text) => `${text}\nLocal note\n`)
+    edit(root, "components.json", (text) => text.replace('"slate"', '"zinc"'))
+
+    const plan = planRollback(root, version)
+    expect(plan.changes.find((change) => change.path === "DESIGN-SYSTEM-SPECS.md")).toMatchObject({ action: "update" })
+    expect(plan.changes.find((change) => change.path === "components.json")).toMatchObject({ action: "keep", note: "local edits" })
+    applyRollback(root, plan)
+    expect(read(root, "DESIGN-SYSTEM-SPECS.md")).toBe(read(PLAYBOOK_ROOT, "DESIGN-SYSTEM-SPECS.md"))
+    expect(read(root, "components.json")).toContain('"zinc"')
+  })
+
+  it("names what can be restored when the target is unknown", () => {
+    const root = project("vite")
+    install(root)
+    expect(() => planRollback(root, "0.9.0")).toThrow(`No version or backup "0.9.0"`)
+  })
+})
@@ -0,0 +1,182 @@
+// Installer behind `ds init`, `ds upgrade` and `ds rollback`. Plans are
+// computed first (see ./plan) and applied here: the files about to change are
+// backed up, written, and recorded in the project's manifest by hash, so the
+// next upgrade can tell the playbook's files from local edits and a rollback
+// can restore any installed version.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { fileURLToPath } from "node:url"
+import { merge3 } from "./merge"
+import { withMerge, type Change, type Plan } from "./plan"
+import { backupId, openState, sha256, type Manifest, type ManagedFile, type State } from "./state"
+
+export { detectProject, type Framework, type Project } from "./detect"
+export { merge3 } from "./merge"
+export { ENGINE_DIRECTORY, planInstall, playbookVersion, type Action, type Change, type Plan } from "./plan"
+export { STATE_DIRECTORY, type Manifest } from "./state"
+
+/** The playbook checkout this engine runs from */
+export const PLAYBOOK_ROOT = path.resolve(fileURLToPath(new URL("../../../..", import.meta.url)))
+
+const writes = (change: Change) => change.contents !== undefined || change.action === "delete"
+
+function read(root: string, file: string): string | undefined {
+  const target = path.join(root, file)
+  return fs.existsSync(target) ? fs.readFileSync(target, "utf8") : undefined
+}
+
+/** Backs up every file `changes` touch, then writes them; returns the backup id */
+function write(root: string, state: State, changes: Change[], reason: string): string | undefined {
+  const touched = changes.filter(writes)
+  if (!touched.length) return undefined
+
+  const files: Record<string, string | null> = {}
+  for (const change of touched) {
+    const current = read(root, change.path)
+    files[change.path] = current === undefined ? null : state.put(current)
+  }
+  const id = backupId()
+  state.saveBackup({ id, reason, manifest: state.manifest(), files })
+
+  for (const change of touched) {
+    const target = path.join(root, change.path)
+    if (change.contents === undefined) {
+      fs.rmSync(target, { force: true })
+      continue
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true })
+    fs.writeFileSync(target, change.contents)
+    if (change.executable) fs.chmodSync(target, 0o755)
+  }
+  return id
+}
+
+const sortKeys = <T>(record: Record<string, T>) =>
+  Object.fromEntries(Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+
+export interface Applied {
+  /** Backup of the files as they were, restorable with `ds rollback <id>` */
+  backup?: string
+  manifest: Manifest
+}
+
+export function applyPlan(plan: Plan, playbook: string, now: Date = new Date()): Applied {
+  const { root } = plan.project
+  const state = openState(root)
+  const backup = write(root, state, plan.changes, `${plan.previous ? "upgrade" : "init"} to ${plan.version}`)
+
+  const files: Record<string, ManagedFile> = {}
+  for (const change of plan.changes) {
+    if (!change.owner || change.action === "delete") continue
+    if (change.action === "keep") {
+      // A seed edited since it was installed stays on record, so later upgrades keep leaving it alone
+      const entry = plan.previous?.files[change.path]
+      if (entry && change.owner === "project") files[change.path] = entry
+      continue
+    }
+    files[change.path] = {
+      sha256: state.put(change.contents ?? read(root, change.path)!),
+      owner: change.owner,
+      ...(change.base === undefined ? {} : { base: state.put(change.base) }),
+      ...(change.executable ? { executable: true } : {}),
+    }
+  }
+
+  const unchanged =
+    plan.previous?.version === plan.version &&
+    plan.previous.playbook === playbook &&
+    JSON.stringify(plan.previous.files) === JSON.stringify(sortKeys(files))
+  if (unchanged) return { backup, manifest: plan.previous! }
+
+  const manifest: Manifest = {
+    format: 1,
+    version: plan.version,
+    playbook,
+    installedAt: now.toISOString(),
+    framework: plan.project.framework,
+    files: sortKeys(files),
+  }
+  state.saveManifest(manifest)
+  state.saveVersion(manifest)
+  return { backup, manifest }
+}
+
+export interface Rollback {
+  target: string
+  changes: Change[]
+  /** The manifest once the rollback is done */
+  manifest: Manifest | null
+}
+
+/**
+ * Plans a return to an installed version, or to the files a backup holds.
+ * Project files only follow a version rollback while nobody has edited them.
+ */
+export function planRollback(root: string, target: string): Rollback {
+  const state = openState(root)
+  const current = state.manifest()
+  const restore = (file: string, contents: string | null, executable?: boolean): Change => {
+    const existing = read(root, file)
+    if (contents === null) return { path: file, action: existing === undefined ? "unchanged" : "delete" }
+    if (existing === contents) return { path: file, action: "unchanged" }
+    return { path: file, action: existing === undefined ? "create" : "update", contents, executable }
+  }
+
+  const version = state.version(target)
+  if (version) {
+    const changes: Change[] = []
+    const files = { ...version.files }
+    for (const [file, entry] of Object.entries(version.files)) {
+      const now = current?.files[file]
+      const existing = read(root, file)
+      const untouched = existing === undefined ? !now : !!now && sha256(existing) === now.sha256
+      if (entry.owner === "project" && !untouched) {
+        changes.push({ path: file, action: "keep", note: existing === undefined ? "deleted locally" : "local edits" })
+        if (now) files[file] = now
+        else delete files[file]
+        continue
+      }
+      if (entry.base && now?.base && existing !== undefined && sha256(existing) !== now.base) {
+        // Edited token CSS: undo the playbook's changes, not the local ones
+        const merged = merge3(state.get(now.base), existing, state.get(entry.base), { ours: "local", theirs: `playbook ${version.version}` })
+        files[file] = { ...entry, sha256: sha256(merged.text) }
+        changes.push(withMerge({ path: file, action: "merge" }, merged))
+        continue
+      }
+      changes.push(restore(file, state.get(entry.sha256), entry.executable))
+    }
+    for (const [file, entry] of Object.entries(current?.files ?? {})) {
+      if (file in version.files) continue
+      if (entry.owner === "project") files[file] = entry
+      else changes.push(restore(file, null))
+    }
+    return { target, changes, manifest: { ...version, files: sortKeys(files) } }
+  }
+
+  const backup = state.backup(target)
+  if (backup) {
+    return {
+      target,
+      changes: Object.entries(backup.files).map(([file, hash]) => restore(file, hash === null ? null : state.get(hash))),
+      manifest: backup.manifest,
+    }
+  }
+
+  const versions = state.versions()
+  const backups = state.backups()
+  throw new Error(
+    [
+      `No version or backup "${target}" recorded in ${state.directory}.`,
+      `Versions: ${versions.join(", ") || "none"}.`,
+      `Backups: ${backups.join(", ") || "none"}.`,
+    ].join(" "),
+  )
+}
+
+export function applyRollback(root: string, rollback: Rollback): string | undefined {
+  const state = openState(root)
+  const backup = write(root, state, rollback.changes, `rollback to ${rollback.target}`)
+  state.saveManifest(rollback.manifest)
+  return backup
+}
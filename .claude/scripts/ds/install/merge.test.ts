@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { merge3 } from "./merge"
+
+const labels = { ours: "local", theirs: "playbook 2.1.0" }
+const lines = (...values: string[]) => values.join("\n")
+
+describe("merge3", () => {
+  const base = lines(":root {", "  --primary: blue;", "  --accent: amber;", "  --radius: 8px;", "}")
+
+  it("applies changes from both sides when they touch different lines", () => {
+    const ours = base.replace("--radius: 8px", "--radius: 12px")
+    const theirs = base.replace("blue", "violet")
+    expect(merge3(base, ours, theirs, labels)).toEqual({
+      text: lines(":root {", "  --primary: violet;", "  --accent: amber;", "  --radius: 12px;", "}"),
+      conflicts: 0,
+    })
+  })
+
+  it("takes a change both sides made alike once", () => {
+    const both = base.replace("amber", "orange")
+    expect(merge3(base, both, both, labels)).toEqual({ text: both, conflicts: 0 })
+  })
+
+  it("keeps lines added on one side and removed on the other", () => {
+    const ours = base.replace("}", "  --brand: red;\n}")
+    const theirs = base.replace("  --accent: amber;\n", "")
+    expect(merge3(base, ours, theirs, labels).text).toBe(lines(":root {", "  --primary: blue;", "  --radius: 8px;", "  --brand: red;", "}"))
+  })
+
+  it("marks differing changes to the same line as a conflict", () => {
+    const ours = base.replace("blue", "teal")
+    const theirs = base.replace("blue", "violet")
+    expect(merge3(base, ours, theirs, labels)).toEqual({
+      text: lines(
+        ":root {",
+        "<<<<<<< local",
+        "  --primary: teal;",
+        "=======",
+        "  --primary: violet;",
+        ">>>>>>> playbook 2.1.0",
+        "  --accent: amber;",
+        "  --radius: 8px;",
+        "}",
+      ),
+      conflicts: 1,
+    })
+  })
+
+  it("treats two different insertions at the same place as a conflict", () => {
+    const ours = base.replace("}", "  --a: 1;\n}")
+    const theirs = base.replace("}", "  --b: 2;\n}")
+    const merged = merge3(base, ours, theirs, labels)
+    expect(merged.conflicts).toBe(1)
+    expect(merged.text).toContain(lines("<<<<<<< local", "  --a: 1;", "=======", "  --b: 2;", ">>>>>>> playbook 2.1.0"))
+  })
+})
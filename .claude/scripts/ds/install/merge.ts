@@ -0,0 +1,132 @@
+// Line-based three-way merge for `ds upgrade`: local edits to the generated
+// token CSS are carried over to the newly generated version. A change made on
+// one side applies as is; overlapping changes that differ become git-style
+// conflict markers.
+
+export interface MergeResult {
+  text: string
+  conflicts: number
+}
+
+export interface MergeLabels {
+  ours: string
+  theirs: string
+}
+
+/** Base lines [start, end) replaced by `lines` on one side */
+interface Hunk {
+  start: number
+  end: number
+  lines: string[]
+  side: keyof MergeLabels
+}
+
+/** Index pairs of equal lines along a longest common subsequence */
+function commonLines(a: string[], b: string[]): Array<[number, number]> {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  // LCS table over the middle only; generated files differ in a few places
+  const rows = a.length - prefix - suffix
+  const columns = b.length - prefix - suffix
+  const width = columns + 1
+  const table = new Uint32Array((rows + 1) * width)
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[prefix + i] === b[prefix + j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  const pairs: Array<[number, number]> = []
+  for (let i = 0; i < prefix; i++) pairs.push([i, i])
+  let i = 0
+  let j = 0
+  while (i < rows && j < columns) {
+    if (a[prefix + i] === b[prefix + j]) {
+      pairs.push([prefix + i, prefix + j])
+      i++
+      j++
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  for (let k = suffix; k > 0; k--) pairs.push([a.length - k, b.length - k])
+  return pairs
+}
+
+function hunks(base: string[], other: string[], side: Hunk["side"]): Hunk[] {
+  const result: Hunk[] = []
+  let i = 0
+  let j = 0
+  for (const [baseIndex, otherIndex] of [...commonLines(base, other), [base.length, other.length]]) {
+    if (baseIndex > i || otherIndex > j) result.push({ start: i, end: baseIndex, lines: other.slice(j, otherIndex), side })
+    i = baseIndex + 1
+    j = otherIndex + 1
+  }
+  return result
+}
+
+export function merge3(base: string, ours: string, theirs: string, labels: MergeLabels): MergeResult {
+  const baseLines = base.split("\n")
+  const all = [...hunks(baseLines, ours.split("\n"), "ours"), ...hunks(baseLines, theirs.split("\n"), "theirs")].sort(
+    (a, b) => a.start - b.start || a.end - b.end,
+  )
+
+  const output: string[] = []
+  let cursor = 0
+  let conflicts = 0
+  for (let index = 0; index < all.length; ) {
+    const { start } = all[index]
+    let end = all[index].end
+    const group = [all[index++]]
+    // Overlapping ranges, or two insertions at the same line, have to be settled together
+    while (index < all.length) {
+      const next = all[index]
+      const bothInsert = start === end && next.start === next.end && next.start === start
+      if (next.start >= end && !bothInsert) break
+      end = Math.max(end, next.end)
+      group.push(all[index++])
+    }
+
+    const apply = (side: Hunk["side"]) => {
+      const lines: string[] = []
+      let position = start
+      for (const hunk of group.filter((entry) => entry.side === side)) {
+        lines.push(...baseLines.slice(position, hunk.start), ...hunk.lines)
+        position = hunk.end
+      }
+      return [...lines, ...baseLines.slice(position, end)]
+    }
+
+    output.push(...baseLines.slice(cursor, start))
+    cursor = end
+    const sides = new Set(group.map((hunk) => hunk.side))
+    if (sides.size === 1) {
+      output.push(...apply(group[0].side))
+      continue
+    }
+    const mine = apply("ours")
+    const yours = apply("theirs")
+    if (mine.join("\n") === yours.join("\n")) {
+      output.push(...mine)
+      continue
+    }
+    conflicts++
+    output.push(`<<<<<<< ${labels.ours}`, ...mine, "=======", ...yours, `>>>>>>> ${labels.theirs}`)
+  }
+  output.push(...baseLines.slice(cursor))
+  return { text: output.join("\n"), conflicts }
+}
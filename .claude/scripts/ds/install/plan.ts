@@ -0,0 +1,401 @@
+// Decides what `ds init` and `ds upgrade` change in a project, without writing
+// anything, so `--dry-run` prints exactly what a real run does. Each file is
+// weighed against the manifest of the last install: untouched files follow the
+// playbook, edited ones are kept, backed up or (for the token CSS) merged.
+
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import * as ts from "typescript"
+import { importSpecifiers } from "../check/graph"
+import { DESIGN_CONFIG_FILE, loadDesignSystem, SYSTEM_CONFIG_FILE } from "../config"
+import { compileTokens, type GeneratedFile } from "../tokens/compile"
+import { compileComponents, parseShadcnAliases } from "../tokens/components"
+import { detectProject, resolveAlias, type Framework, type Project, type TokenOutputs } from "./detect"
+import { merge3, type MergeResult } from "./merge"
+import { openState, sha256, type ManagedFile, type Manifest, type Owner, type State } from "./state"
+
+export type Action = "create" | "update" | "merge" | "conflict" | "replace" | "keep" | "unchanged" | "delete"
+
+export interface Change {
+  path: string
+  action: Action
+  /** Contents to write; absent when the file is left as it is or deleted */
+  contents?: string
+  /** Files without an owner are not recorded in the manifest */
+  owner?: Owner
+  /** Unedited generated contents, for the next merge */
+  base?: string
+  executable?: boolean
+  note?: string
+}
+
+export interface Plan {
+  project: Project
+  version: string
+  previous: Manifest | null
+  changes: Change[]
+  /** Packages and shadcn/ui components the project still lacks */
+  missing: { dependencies: string[]; devDependencies: string[]; components: string[] }
+}
+
+interface Desired {
+  path: string
+  contents: string
+  owner: Owner
+  executable?: boolean
+}
+
+export const ENGINE_DIRECTORY = ".claude/scripts/ds"
+export const WRAPPER = ".claude/commands/ds"
+/** The rules the checks cite, in place of the CLAUDE.md earlier setups referred to */
+const SPECS = "DESIGN-SYSTEM-SPECS.md"
+const SHOWCASE_TEMPLATE = "templates/DesignSystemShowcase.tsx"
+
+const DEPENDENCIES = [
+  "tailwindcss",
+  "@tailwindcss/typography",
+  "class-variance-authority",
+  "clsx",
+  "tailwind-merge",
+  "lucide-react",
+  "@radix-ui/react-icons",
+]
+const DEV_DEPENDENCIES = ["typescript", "tsx", "vitest", "vite-tsconfig-paths"]
+/** Tailwind v4 runs as a Vite plugin in Vite projects and as a PostCSS plugin in Next.js */
+const TAILWIND_DEV_DEPENDENCIES: Record<Framework, string[]> = {
+  "next-app": ["@tailwindcss/postcss"],
+  "next-pages": ["@tailwindcss/postcss"],
+  vite: ["@tailwindcss/vite"],
+}
+const UI_COMPONENTS = [
+  "button",
+  "card",
+  "input",
+  "label",
+  "form",
+  "dialog",
+  "sheet",
+  "dropdown-menu",
+  "alert",
+  "badge",
+  "avatar",
+  "separator",
+  "skeleton",
+]
+const SCRIPTS = ["check", "watch", "auto", "tokens", "contrast", "validate", "consult"]
+const CONFIG_EXTENSIONS = [".ts", ".mts", ".js", ".mjs"]
+const VITE_CONFIGS = CONFIG_EXTENSIONS.map((ext) => `vite.config${ext}`)
+const TEST_CONFIGS = [...CONFIG_EXTENSIONS.map((ext) => `vitest.config${ext}`), ...VITE_CONFIGS]
+const POSTCSS_CONFIGS = [...[".mjs", ".js", ".cjs", ".ts", ".mts"].map((ext) => `postcss.config${ext}`), ".postcssrc.json", ".postcssrc"]
+
+export function playbookVersion(playbook: string): string {
+  const file = path.join(playbook, SYSTEM_CONFIG_FILE)
+  const version = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")).designSystem?.version : undefined
+  if (typeof version !== "string") throw new Error(`${file} has no designSystem.version`)
+  return version
+}
+
+/** The engine's own tests and their fixtures stay in the playbook */
+const NOT_INSTALLED = /(^|\/)fixtures\/|\.test\.ts$/
+
+function listFiles(root: string, directory: string): string[] {
+  return fs.readdirSync(path.join(root, directory), { withFileTypes: true }).flatMap((entry) => {
+    const file = path.posix.join(directory, entry.name)
+    if (NOT_INSTALLED.test(entry.isDirectory() ? `${file}/` : file)) return []
+    return entry.isDirectory() ? listFiles(root, file) : [file]
+  })
+}
+
+/** Points the `tokens` outputs at the detected layout, leaving the rest of the file as written */
+function withOutputs(designConfig: string, outputs: TokenOutputs): string {
+  const start = designConfig.indexOf('"tokens"')
+  if (start === -1) {
+    return `${JSON.stringify({ ...JSON.parse(designConfig), tokens: outputs }, null, 2)}\n`
+  }
+  const end = designConfig.indexOf("}", start)
+  const block = designConfig
+    .slice(start, end)
+    .replace(/"(\w+)"(\s*:\s*)"[^"]*"/g, (match, key: string, colon: string) =>
+      key in outputs ? `"${key}"${colon}"${outputs[key as keyof TokenOutputs]}"` : match,
+    )
+  return designConfig.slice(0, start) + block + designConfig.slice(end)
+}
+
+function renderComponentsJson(project: Project): string {
+  const { alias } = project
+  const config = {
+    $schema: "https://ui.shadcn.com/schema.json",
+    style: "default",
+    rsc: project.framework === "next-app",
+    tsx: true,
+    // Tailwind v4 keeps its configuration in the CSS
+    tailwind: { config: "", css: project.outputs.css, baseColor: "slate", cssVariables: true, prefix: "" },
+    aliases: { components: `${alias}/components`, utils: `${alias}/lib/utils`, ui: `${alias}/components/ui` },
+    iconLibrary: "lucide",
+  }
+  return `${JSON.stringify(config, null, 2)}\n`
+}
+
+const UTILS = `import { type ClassValue, clsx } from "clsx"
+import { twMerge } from "tailwind-merge"
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs))
+}
+`
+
+/** Lets vitest resolve the aliases the DS component tests import through */
+const VITEST_CONFIG = `import tsconfigPaths from "vite-tsconfig-paths"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  esbuild: { jsx: "automatic" },
+})
+`
+
+const WRAPPER_SCRIPT = `#!/bin/sh
+# Design System CLI Tool, installed by \`ds init\`
+# Usage: ./.claude/commands/ds <command> [options]; without a command it lists them
+exec npx tsx ${ENGINE_DIRECTORY}/cli.ts "$@"
+`
+
+function decide(file: Desired, previous: ManagedFile | undefined, current: string | undefined): Change {
+  const change: Change = { path: file.path, action: "create", contents: file.contents, owner: file.owner, executable: file.executable }
+  if (current === file.contents) return { ...change, action: "unchanged", contents: undefined }
+  const untouched = previous !== undefined && current !== undefined && sha256(current) === previous.sha256
+  if (file.owner === "project") {
+    if (current === undefined) return previous ? { ...change, action: "keep", contents: undefined, note: "deleted locally" } : change
+    if (untouched) return { ...change, action: "update" }
+    return { ...change, action: "keep", contents: undefined, note: previous ? "local edits" : "already present" }
+  }
+  if (current === undefined) return change
+  if (untouched) return { ...change, action: "update" }
+  return { ...change, action: "replace", note: previous ? "local edits backed up" : "existing file backed up" }
+}
+
+/** The token CSS keeps local edits: three-way merge against the last unedited output */
+function decideCss(file: GeneratedFile, previous: ManagedFile | undefined, current: string | undefined, state: State, version: string): Change {
+  const change: Change = { path: file.path, action: "create", contents: file.contents, owner: "generated", base: file.contents }
+  if (current === undefined) return change
+  if (current === file.contents) return { ...change, action: "unchanged", contents: undefined }
+  // Edits merged in earlier are still local edits, so compare with the unedited output
+  if (previous && sha256(current) === (previous.base ?? previous.sha256)) return { ...change, action: "update" }
+  if (!previous?.base) return { ...change, action: "replace", note: "not generated by ds; backed up" }
+  if (previous.base === sha256(file.contents)) return { ...change, action: "unchanged", contents: undefined }
+
+  const merged = merge3(state.get(previous.base), current, file.contents, { ours: "local", theirs: `playbook ${version}` })
+  if (merged.text === current) return { ...change, action: "unchanged", contents: undefined, note: "local edits kept" }
+  return withMerge(change, merged)
+}
+
+/** Conflicts are written with markers, for the user to resolve */
+export function withMerge(change: Change, merged: MergeResult): Change {
+  if (!merged.conflicts) return { ...change, action: "merge", contents: merged.text, note: "local edits kept" }
+  const conflicts = `${merged.conflicts} conflict${merged.conflicts === 1 ? "" : "s"}`
+  return { ...change, action: "conflict", contents: merged.text, note: `${conflicts}; resolve the <<<<<<< markers` }
+}
+
+const TAILWIND_IMPORT = /^@import\s+["']tailwindcss["'];?[ \t]*$/m
+
+/**
+ * The entry stylesheet (Next.js globals.css, Vite's src/index.css) stays the
+ * project's: it only gains an @import of the generated theme, in place of its
+ * own Tailwind import since the theme brings one. An unedited copy of the theme
+ * the previous install generated there gives way to the import.
+ */
+function decideStylesheet(file: string, theme: string, previous: ManagedFile | undefined, current: string | undefined): Change {
+  const specifier = `./${path.posix.relative(path.posix.dirname(file), theme)}`
+  const line = `@import "${specifier}";`
+  if (current === undefined) return { path: file, action: "create", contents: `${line}\n`, note: `imports ${theme}` }
+  if (importSpecifiers(file, current).includes(specifier)) return { path: file, action: "unchanged" }
+  if (previous?.owner === "generated") {
+    if (sha256(current) === (previous.base ?? previous.sha256)) {
+      return { path: file, action: "update", contents: `${line}\n`, note: `theme moved to ${theme}` }
+    }
+    return { path: file, action: "keep", note: `theme moved to ${theme}; replace the edited copy with ${line}` }
+  }
+  const contents = TAILWIND_IMPORT.test(current) ? current.replace(TAILWIND_IMPORT, line) : `${line}\n${current}`
+  return { path: file, action: "update", contents, note: `imports ${theme}` }
+}
+
+const tailwindPlugin = (quote = '"', semicolon = "") => `import tailwindcss from ${quote}@tailwindcss/vite${quote}${semicolon}`
+const PLUGINS = /plugins\s*:\s*\[(\s*\])?/
+
+/** Adds Tailwind's Vite plugin to the project's vite.config, or writes a config with just that */
+function decideViteConfig(file: string | undefined, current: string | undefined): Change {
+  if (file === undefined || current === undefined) {
+    const contents = `${tailwindPlugin()}\nimport { defineConfig } from "vite"\n\nexport default defineConfig({\n  plugins: [tailwindcss()],\n})\n`
+    return { path: "vite.config.ts", action: "create", contents, note: "Tailwind plugin" }
+  }
+  if (importSpecifiers(file, current).includes("@tailwindcss/vite")) return { path: file, action: "unchanged" }
+
+  const source = ts.createSourceFile(file, current, ts.ScriptTarget.Latest)
+  const imports = source.statements.filter(ts.isImportDeclaration)
+  const last = imports[imports.length - 1]
+  // Written the way the config's own imports are
+  const text = last?.getText(source) ?? ""
+  const line = tailwindPlugin(text.includes("'") ? "'" : '"', text.endsWith(";") ? ";" : "")
+  const withImport = last ? `${current.slice(0, last.end)}\n${line}${current.slice(last.end)}` : `${line}\n${current}`
+  let contents: string | undefined
+  if (PLUGINS.test(withImport)) {
+    contents = withImport.replace(PLUGINS, (match, empty?: string) => (empty ? "plugins: [tailwindcss()]" : `${match}tailwindcss(), `))
+  } else if (withImport.includes("defineConfig({")) {
+    contents = withImport.replace("defineConfig({", "defineConfig({\n  plugins: [tailwindcss()],")
+  }
+  if (!contents) return { path: file, action: "keep", note: "add tailwindcss() from @tailwindcss/vite to its plugins" }
+  return { path: file, action: "update", contents, note: "Tailwind plugin" }
+}
+
+const POSTCSS_CONFIG = `const config = {
+  plugins: {
+    "@tailwindcss/postcss": {},
+  },
+}
+
+export default config
+`
+const POSTCSS_PLUGINS = /plugins\s*:\s*\{/
+
+/** Adds Tailwind's PostCSS plugin to the project's PostCSS config, or writes a config with just that */
+function decidePostcssConfig(file: string | undefined, current: string | undefined): Change {
+  if (file === undefined || current === undefined) {
+    return { path: "postcss.config.mjs", action: "create", contents: POSTCSS_CONFIG, note: "Tailwind plugin" }
+  }
+  if (current.includes("@tailwindcss/postcss")) return { path: file, action: "unchanged" }
+  // Object-form plugins, in JavaScript or JSON; the plugin's quotes suit both
+  const match = POSTCSS_PLUGINS.exec(current)
+  if (!match) return { path: file, action: "keep", note: 'add "@tailwindcss/postcss" to its plugins' }
+  const indent = /\n([ \t]+)\S/.exec(current.slice(match.index + match[0].length))?.[1] ?? "    "
+  const end = match.index + match[0].length
+  const contents = `${current.slice(0, end)}\n${indent}"@tailwindcss/postcss": {},${current.slice(end)}`
+  return { path: file, action: "update", contents, note: "Tailwind plugin" }
+}
+
+/** Compiles tokens and components from the config files the project will have after this run */
+function generate(root: string, configs: Record<string, string | undefined>): GeneratedFile[] {
+  const compile = (directory: string) => {
+    const config = loadDesignSystem(directory)
+    return [...compileTokens(config), ...compileComponents(config)]
+  }
+  const onDisk = Object.entries(configs).every(([file, contents]) => {
+    const target = path.join(root, file)
+    return contents === (fs.existsSync(target) ? fs.readFileSync(target, "utf8") : undefined)
+  })
+  if (onDisk) return compile(root)
+
+  const staging = fs.mkdtempSync(path.join(os.tmpdir(), "ds-init-"))
+  try {
+    for (const [file, contents] of Object.entries(configs)) {
+      if (contents !== undefined) fs.writeFileSync(path.join(staging, file), contents)
+    }
+    return compile(staging)
+  } finally {
+    fs.rmSync(staging, { recursive: true, force: true })
+  }
+}
+
+export function planInstall(playbook: string, root: string): Plan {
+  const state = openState(root)
+  const previous = state.manifest()
+  if (path.resolve(root) === path.resolve(playbook)) {
+    throw new Error(
+      previous
+        ? `This is an installed copy. Run the command from the playbook checkout: npx tsx ${previous.playbook}/${ENGINE_DIRECTORY}/cli.ts <command> ${root}`
+        : "Pass the project directory to install into; the playbook cannot install into itself",
+    )
+  }
+  const project = detectProject(root)
+  const version = playbookVersion(playbook)
+  const read = (file: string) => (fs.existsSync(path.join(root, file)) ? fs.readFileSync(path.join(root, file), "utf8") : undefined)
+  const fromPlaybook = (file: string) => fs.readFileSync(path.join(playbook, file), "utf8")
+  const changes: Change[] = []
+  const plan = (file: Desired) => {
+    const change = decide(file, previous?.files[file.path], read(file.path))
+    changes.push(change)
+    return change.contents ?? read(file.path)
+  }
+
+  // Seeds: the project's own files from here on
+  const componentsJson = plan({ path: "components.json", contents: renderComponentsJson(project), owner: "project" })
+  const aliases = parseShadcnAliases(componentsJson)
+  const configs = {
+    [DESIGN_CONFIG_FILE]: plan({ path: DESIGN_CONFIG_FILE, contents: withOutputs(fromPlaybook(DESIGN_CONFIG_FILE), project.outputs), owner: "project" }),
+    [SYSTEM_CONFIG_FILE]: plan({ path: SYSTEM_CONFIG_FILE, contents: fromPlaybook(SYSTEM_CONFIG_FILE), owner: "project" }),
+    "components.json": componentsJson,
+  }
+  plan({
+    path: resolveAlias(project, aliases.utils) ?? path.posix.join(project.sourceDir, "lib/utils.ts"),
+    contents: UTILS,
+    owner: "project",
+  })
+  if (previous?.files["vitest.config.mts"] || !TEST_CONFIGS.some((file) => read(file) !== undefined)) {
+    plan({ path: "vitest.config.mts", contents: VITEST_CONFIG, owner: "project" })
+  }
+  plan({
+    path: path.posix.join(project.sourceDir, "components/examples/DesignSystemShowcase.tsx"),
+    contents: fromPlaybook(SHOWCASE_TEMPLATE).replace(/from "@\//g, `from "${project.alias}/`),
+    owner: "project",
+  })
+
+  // Generated from the project's config by this playbook's compilers
+  const generated = generate(root, configs)
+  for (const file of generated) {
+    if (file.kind === "css") changes.push(decideCss(file, previous?.files[file.path], read(file.path), state, version))
+    else plan({ path: file.path, contents: file.contents, owner: "generated" })
+  }
+  const theme = generated.find((file) => file.kind === "css")!.path
+  if (theme !== project.stylesheet) {
+    changes.push(decideStylesheet(project.stylesheet, theme, previous?.files[project.stylesheet], read(project.stylesheet)))
+  }
+  if (project.framework === "vite") {
+    const viteConfig = VITE_CONFIGS.find((file) => read(file) !== undefined)
+    changes.push(decideViteConfig(viteConfig, viteConfig && read(viteConfig)))
+  } else {
+    const postcssConfig = POSTCSS_CONFIGS.find((file) => read(file) !== undefined)
+    changes.push(decidePostcssConfig(postcssConfig, postcssConfig && read(postcssConfig)))
+  }
+
+  // The engine, its wrapper and the rules it cites
+  for (const file of [...listFiles(playbook, ENGINE_DIRECTORY), SPECS]) {
+    plan({ path: file, contents: fromPlaybook(file), owner: "playbook" })
+  }
+  plan({ path: WRAPPER, contents: WRAPPER_SCRIPT, owner: "playbook", executable: true })
+
+  // Files an earlier version installed that this one no longer ships
+  const wanted = new Set(changes.map((change) => change.path))
+  for (const [file, entry] of Object.entries(previous?.files ?? {})) {
+    const current = read(file)
+    if (wanted.has(file) || entry.owner === "project" || current === undefined) continue
+    changes.push(
+      sha256(current) === entry.sha256
+        ? { path: file, action: "delete" }
+        : { path: file, action: "keep", note: "no longer installed; local edits" },
+    )
+  }
+
+  const pkgText = read("package.json")!
+  const pkg = JSON.parse(pkgText)
+  const scripts: Record<string, string> = { ...pkg.scripts }
+  for (const name of SCRIPTS) scripts[`design:${name}`] = `./${WRAPPER} ${name}`
+  scripts["design:test"] = `vitest run ${project.outputs.components}`
+  if (JSON.stringify(scripts) !== JSON.stringify(pkg.scripts ?? {})) {
+    const indent = /^[ \t]+(?=")/m.exec(pkgText)?.[0] ?? 2
+    changes.push({ path: "package.json", action: "update", contents: `${JSON.stringify({ ...pkg, scripts }, null, indent)}\n`, note: "design:* scripts" })
+  }
+
+  const installed = { ...pkg.dependencies, ...pkg.devDependencies }
+  const ui = resolveAlias(project, aliases.ui, "")
+  return {
+    project,
+    version,
+    previous,
+    changes,
+    missing: {
+      dependencies: DEPENDENCIES.filter((name) => !(name in installed)),
+      devDependencies: [...DEV_DEPENDENCIES, ...TAILWIND_DEV_DEPENDENCIES[project.framework]].filter((name) => !(name in installed)),
+      components: ui ? UI_COMPONENTS.filter((name) => read(`${ui}/${name}.tsx`) === undefined) : [],
+    },
+  }
+}
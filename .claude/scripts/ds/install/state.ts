@@ -0,0 +1,117 @@
+// What `ds init` records in a project, under .design-playbook/:
+//
+//   manifest.json            every file the current install manages, by sha256
+//   versions/<version>.json  the manifest as each playbook version left it
+//   backups/<id>.json        files as they were before an upgrade or rollback
+//   objects/<sha256>         the contents those records point to
+//
+// Stored contents have no extension, so type checkers, test runners and
+// `ds check` never pick them up.
+
+import { createHash } from "node:crypto"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { Framework } from "./detect"
+
+export const STATE_DIRECTORY = ".design-playbook"
+
+/**
+ * Who a file belongs to once installed. Playbook files are replaced on every
+ * upgrade, generated ones are rebuilt from the project's config, and project
+ * files are seeded once and only refreshed while nobody has edited them.
+ */
+export type Owner = "playbook" | "generated" | "project"
+
+export interface ManagedFile {
+  sha256: string
+  owner: Owner
+  /** Hash of the unedited generated contents, the base of the next three-way merge */
+  base?: string
+  executable?: boolean
+}
+
+export interface Manifest {
+  format: 1
+  /** Playbook version, from its system-config.json */
+  version: string
+  /** Playbook checkout the install came from */
+  playbook: string
+  installedAt: string
+  framework: Framework
+  files: Record<string, ManagedFile>
+}
+
+export interface Backup {
+  id: string
+  reason: string
+  /** The manifest in effect before the change, if any */
+  manifest: Manifest | null
+  /** Object hash per file, or null where the file did not exist */
+  files: Record<string, string | null>
+}
+
+export function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex")
+}
+
+const VERSION = /^[\w.+-]+$/
+
+export function openState(root: string) {
+  const directory = path.join(root, STATE_DIRECTORY)
+  const read = <T>(file: string): T | null =>
+    fs.existsSync(path.join(directory, file)) ? (JSON.parse(fs.readFileSync(path.join(directory, file), "utf8")) as T) : null
+  const write = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true })
+    fs.writeFileSync(path.join(directory, file), `${JSON.stringify(data, null, 2)}\n`)
+  }
+  const list = (subdirectory: string) =>
+    fs.existsSync(path.join(directory, subdirectory))
+      ? fs
+          .readdirSync(path.join(directory, subdirectory))
+          .filter((name) => name.endsWith(".json"))
+          .map((name) => name.slice(0, -".json".length))
+          .sort()
+      : []
+
+  return {
+    directory,
+    manifest: () => read<Manifest>("manifest.json"),
+    saveManifest(manifest: Manifest | null) {
+      if (manifest) write("manifest.json", manifest)
+      else fs.rmSync(path.join(directory, "manifest.json"), { force: true })
+    },
+    /** Stores `text` by hash and returns the hash */
+    put(text: string): string {
+      const hash = sha256(text)
+      const file = path.join(directory, "objects", hash)
+      if (!fs.existsSync(file)) {
+        fs.mkdirSync(path.dirname(file), { recursive: true })
+        fs.writeFileSync(file, text)
+      }
+      return hash
+    },
+    get(hash: string): string {
+      const file = path.join(directory, "objects", hash)
+      if (!fs.existsSync(file)) throw new Error(`${path.relative(root, file)} is missing; the install record is incomplete`)
+      return fs.readFileSync(file, "utf8")
+    },
+    versions: () => list("versions"),
+    version: (version: string) => (VERSION.test(version) ? read<Manifest>(`versions/${version}.json`) : null),
+    saveVersion(manifest: Manifest) {
+      if (!VERSION.test(manifest.version)) throw new Error(`Invalid playbook version "${manifest.version}"`)
+      write(`versions/${manifest.version}.json`, manifest)
+    },
+    backups: () => list("backups"),
+    backup: (id: string) => (VERSION.test(id) ? read<Backup>(`backups/${id}.json`) : null),
+    saveBackup(backup: Backup) {
+      write(`backups/${backup.id}.json`, backup)
+    },
+  }
+}
+
+export type State = ReturnType<typeof openState>
+
+/** Sortable and safe as a file name: 2026-10-19T09-30-00-000Z */
+export function backupId(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, "-")
+}
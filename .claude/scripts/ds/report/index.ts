@@ -0,0 +1,26 @@
+// Output formats shared by every `ds` command that reports violations
+
+import type { FileResult, RuleMeta } from "../types"
+import { formatJson } from "./json"
+import { formatSarif } from "./sarif"
+import { formatStylish } from "./stylish"
+
+export { summarize, type Summary } from "./summary"
+
+export const FORMATS = ["stylish", "json", "sarif"] as const
+export type Format = (typeof FORMATS)[number]
+
+export function isFormat(value: string): value is Format {
+  return (FORMATS as readonly string[]).includes(value)
+}
+
+export function format(results: FileResult[], kind: Format, rules: RuleMeta[]): string {
+  switch (kind) {
+    case "json":
+      return formatJson(results, rules)
+    case "sarif":
+      return formatSarif(results, rules)
+    default:
+      return formatStylish(results, rules)
+  }
+}
@@ -0,0 +1,16 @@
+// Machine-readable report for scripts and CI; violations carry the spec check they break
+
+import type { FileResult, RuleMeta } from "../types"
+import { summarize } from "./summary"
+
+export function formatJson(results: FileResult[], rules: RuleMeta[] = []): string {
+  const byId = new Map(rules.map((rule) => [rule.id, rule]))
+  const withSpec = results.map((result) => ({
+    ...result,
+    violations: result.violations.map((violation) => {
+      const rule = byId.get(violation.ruleId)
+      return rule ? { ...violation, specRule: rule.specRule, specSection: rule.specSection } : violation
+    }),
+  }))
+  return JSON.stringify({ summary: summarize(results), results: withSpec }, null, 2)
+}
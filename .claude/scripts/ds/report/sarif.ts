@@ -0,0 +1,49 @@
+// SARIF 2.1.0 report for GitHub code scanning and other SARIF viewers
+
+import type { FileResult, RuleMeta } from "../types"
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json"
+
+export function formatSarif(results: FileResult[], rules: RuleMeta[]): string {
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]))
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "ds",
+            fullName: "Design System Law Book compliance check",
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              fullDescription: { text: `${rule.specSection} (compliance check ${rule.specRule})` },
+              defaultConfiguration: { level: rule.severity },
+              properties: { specRule: rule.specRule, specSection: rule.specSection },
+            })),
+          },
+        },
+        results: results.flatMap((result) =>
+          result.violations.map((violation) => ({
+            ruleId: violation.ruleId,
+            ruleIndex: ruleIndex.get(violation.ruleId),
+            level: violation.severity,
+            message: {
+              text: violation.suggestion ? `${violation.message} (suggested: ${violation.suggestion})` : violation.message,
+            },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: violation.file.split("\\").join("/") },
+                  region: { startLine: violation.line, startColumn: violation.column },
+                },
+              },
+            ],
+          })),
+        ),
+      },
+    ],
+  }
+  return JSON.stringify(sarif, null, 2)
+}
@@ -0,0 +1,37 @@
+// Human-readable report, grouped by file; each violation names the spec check it breaks
+
+import type { FileResult, RuleMeta } from "../types"
+import { summarize } from "./summary"
+
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR
+const paint = (code: string) => (text: string) => (useColor ? `\x1b[${code}m${text}\x1b[0m` : text)
+const red = paint("31")
+const yellow = paint("33")
+const dim = paint("2")
+const underline = paint("4")
+
+export function formatStylish(results: FileResult[], rules: RuleMeta[] = []): string {
+  const byId = new Map(rules.map((rule) => [rule.id, rule]))
+  const lines: string[] = []
+  for (const result of results) {
+    if (!result.violations.length) continue
+    lines.push(underline(result.file))
+    for (const violation of result.violations) {
+      const level = violation.severity === "error" ? red("error") : yellow("warning")
+      const fix = violation.suggestion ? ` → ${violation.suggestion}` : ""
+      const rule = byId.get(violation.ruleId)
+      const spec = rule ? ` (check ${rule.specRule}, ${rule.specSection})` : ""
+      lines.push(`  ${violation.line}:${violation.column}  ${level}  ${violation.message}${fix}  ${dim(violation.ruleId + spec)}`)
+    }
+    lines.push("")
+  }
+
+  const { files, errors, warnings } = summarize(results)
+  const total = errors + warnings
+  if (total === 0) {
+    lines.push(`✅ All checks passed! ${files} file(s) comply with the design system.`)
+  } else {
+    lines.push(`❌ Found ${total} violation(s) (${errors} error(s), ${warnings} warning(s)) in ${files} file(s).`)
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,18 @@
+// Violation counts shared by the report formats
+
+import type { FileResult } from "../types"
+
+export interface Summary {
+  files: number
+  errors: number
+  warnings: number
+}
+
+export function summarize(results: FileResult[]): Summary {
+  const violations = results.flatMap((result) => result.violations)
+  return {
+    files: results.length,
+    errors: violations.filter((violation) => violation.severity === "error").length,
+    warnings: violations.filter((violation) => violation.severity === "warning").length,
+  }
+}
@@ -0,0 +1,183 @@
+// Color math for the token compiler and the contrast audit: hex ⇄ sRGB ⇄
+// OKLab/OKLCH, gamut mapping, CSS color parsing, and WCAG 2.1 and APCA
+// contrast. OKLab matrices are from Björn Ottosson's reference.
+
+export type Rgb = [number, number, number]
+
+export interface Oklch {
+  l: number
+  c: number
+  h: number
+  alpha?: number
+}
+
+export function hexToRgb(hex: string): { rgb: Rgb; alpha: number } {
+  let value = hex.replace(/^#/, "")
+  if (value.length === 3 || value.length === 4) value = [...value].map((char) => char + char).join("")
+  if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value)) throw new Error(`Invalid hex color: ${hex}`)
+  const channel = (index: number) => parseInt(value.slice(index, index + 2), 16) / 255
+  return { rgb: [channel(0), channel(2), channel(4)], alpha: value.length === 8 ? channel(6) : 1 }
+}
+
+export function rgbToHex(rgb: Rgb): string {
+  return `#${rgb
+    .map((channel) => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}`
+}
+
+const toLinear = (channel: number) =>
+  channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)
+
+const fromLinear = (channel: number) =>
+  channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055
+
+export function rgbToOklch(rgb: Rgb): Oklch {
+  const [r, g, b] = rgb.map(toLinear)
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  const c = Math.sqrt(A * A + B * B)
+  const h = c < 1e-4 ? 0 : ((Math.atan2(B, A) * 180) / Math.PI + 360) % 360
+  return { l: L, c: c < 1e-4 ? 0 : c, h }
+}
+
+/** Unclamped sRGB; channels outside 0..1 mean the color is out of gamut */
+export function oklchToRgb({ l: L, c, h }: Oklch): Rgb {
+  const A = c * Math.cos((h * Math.PI) / 180)
+  const B = c * Math.sin((h * Math.PI) / 180)
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3)
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3)
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3)
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ].map(fromLinear) as Rgb
+}
+
+export function hexToOklch(hex: string): Oklch {
+  const { rgb, alpha } = hexToRgb(hex)
+  return alpha === 1 ? rgbToOklch(rgb) : { ...rgbToOklch(rgb), alpha }
+}
+
+export function oklchToHex(color: Oklch): string {
+  return rgbToHex(oklchToRgb(color))
+}
+
+export function inGamut(color: Oklch): boolean {
+  return oklchToRgb(color).every((channel) => channel >= -1e-4 && channel <= 1 + 1e-4)
+}
+
+/** Reduces chroma until the color fits sRGB, keeping lightness and hue */
+export function toGamut(color: Oklch): Oklch {
+  if (inGamut(color)) return color
+  let low = 0
+  let high = color.c
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2
+    if (inGamut({ ...color, c: mid })) low = mid
+    else high = mid
+  }
+  return { ...color, c: low }
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+export function formatOklch(color: Oklch): string {
+  const alpha = color.alpha !== undefined && color.alpha < 1 ? ` / ${round(color.alpha, 3)}` : ""
+  return `oklch(${round(color.l, 3)} ${round(color.c, 3)} ${round(color.h, 1)}${alpha})`
+}
+
+/** WCAG 2.1 relative luminance */
+export function relativeLuminance(rgb: Rgb): number {
+  const [r, g, b] = rgb.map((channel) => toLinear(Math.min(1, Math.max(0, channel))))
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/** WCAG 2.1 contrast ratio, 1 to 21 */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+// APCA-W3 0.0.98G constants, https://github.com/Myndex/apca-w3
+const APCA = {
+  trc: 2.4,
+  coefficients: [0.2126729, 0.7151522, 0.072175],
+  normBg: 0.56,
+  normText: 0.57,
+  revText: 0.62,
+  revBg: 0.65,
+  blackThreshold: 0.022,
+  blackClamp: 1.414,
+  scale: 1.14,
+  offset: 0.027,
+  lowClip: 0.1,
+  deltaYMin: 0.0005,
+}
+
+function apcaLuminance(rgb: Rgb): number {
+  const y = rgb.reduce(
+    (sum, channel, index) => sum + Math.pow(Math.min(1, Math.max(0, channel)), APCA.trc) * APCA.coefficients[index],
+    0,
+  )
+  return y > APCA.blackThreshold ? y : y + Math.pow(APCA.blackThreshold - y, APCA.blackClamp)
+}
+
+/** APCA lightness contrast (Lc) of `text` on `background`: about -108 to 106, sign gives polarity */
+export function apcaContrast(text: Rgb, background: Rgb): number {
+  const yText = apcaLuminance(text)
+  const yBg = apcaLuminance(background)
+  if (Math.abs(yBg - yText) < APCA.deltaYMin) return 0
+  if (yBg > yText) {
+    const sapc = (Math.pow(yBg, APCA.normBg) - Math.pow(yText, APCA.normText)) * APCA.scale
+    return sapc < APCA.lowClip ? 0 : (sapc - APCA.offset) * 100
+  }
+  const sapc = (Math.pow(yBg, APCA.revBg) - Math.pow(yText, APCA.revText)) * APCA.scale
+  return sapc > -APCA.lowClip ? 0 : (sapc + APCA.offset) * 100
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const k = (n: number) => (n + h / 30) % 12
+  const a = s * Math.min(l, 1 - l)
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return [f(0), f(8), f(4)]
+}
+
+const number = (value: string, percentScale = 1) =>
+  value.endsWith("%") ? (parseFloat(value) / 100) * percentScale : parseFloat(value)
+
+/**
+ * Parses the color notations found in theme CSS: `oklch()`, hex, `rgb()`,
+ * `hsl()` and shadcn's bare HSL triples (`222.2 47.4% 11.2%`).
+ */
+export function parseCssColor(value: string): Oklch | undefined {
+  const text = value.trim().toLowerCase()
+  if (text.startsWith("#")) {
+    try {
+      return hexToOklch(text)
+    } catch {
+      return undefined
+    }
+  }
+  const call = /^(oklch|rgba?|hsla?)\((.*)\)$/.exec(text)
+  const [name, body] = call ? [call[1], call[2]] : ["hsl", text]
+  const [channels, alphaPart] = body.split("/")
+  const parts = channels.replace(/,/g, " ").trim().split(/\s+/)
+  if (parts.length !== 3 || parts.some((part) => Number.isNaN(parseFloat(part)))) return undefined
+  const alpha = alphaPart === undefined ? undefined : number(alphaPart.trim())
+  const withAlpha = (color: Oklch): Oklch => (alpha === undefined || alpha >= 1 ? color : { ...color, alpha })
+
+  if (name === "oklch") {
+    return withAlpha({ l: number(parts[0]), c: number(parts[1], 0.4), h: parseFloat(parts[2]) || 0 })
+  }
+  if (name.startsWith("rgb")) {
+    return withAlpha(rgbToOklch(parts.map((part) => number(part, 255) / 255) as Rgb))
+  }
+  if (!call && !parts.slice(1).every((part) => part.endsWith("%"))) return undefined
+  return withAlpha(rgbToOklch(hslToRgb(parseFloat(parts[0]), number(parts[1]), number(parts[2]))))
+}
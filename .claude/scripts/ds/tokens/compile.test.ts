@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { loadFixtureSystem } from "../fixtures/design-system"
+import { compileTokens, spacingSteps } from "./compile"
+
+function output(kind: string, overrides?: Record<string, unknown>): string {
+  return compileTokens(loadFixtureSystem(overrides)).find((file) => file.kind === kind)!.contents
+}
+
+describe("compileTokens", () => {
+  it("writes each output where the config points", () => {
+    const files = compileTokens(loadFixtureSystem({ tokens: { css: "app/globals.css" } }))
+    expect(files.map((file) => file.path)).toEqual(["app/globals.css", "src/lib/tokens.ts", "design-tokens.json"])
+  })
+
+  it("limits the theme to the grid font sizes and approved weights", () => {
+    const css = output("css")
+    expect(css).toContain("--text-*: initial;")
+    expect(css).toContain("--text-4xl: 2.5rem; /* 40px */")
+    expect(css).toContain("--text-4xl--line-height: 3rem; /* 48px */")
+    expect(css).toContain("--text-xs--line-height: 1rem; /* 16px */")
+    expect(css).not.toContain("--text-6xl")
+    expect(css).toContain("--font-weight-semibold: 600;")
+    expect(css).not.toContain("--font-weight-light")
+  })
+
+  it("keeps Tailwind's 4px class step whatever the grid unit", () => {
+    const config = loadFixtureSystem({ spacing: { baseUnit: 8, scale: [8, 16, 24, 32, 48, 64] } })
+    const [css, , dtcg] = compileTokens(config).map((file) => file.contents)
+    // p-4 must mean 16px in the browser, in ds check and in the DS components alike
+    expect(css).toContain("--spacing: 0.25rem;")
+    expect(spacingSteps(config)).toEqual(["2", "4", "6", "8", "12", "16"])
+    expect(JSON.parse(dtcg).spacing["4"].$value).toEqual({ value: 16, unit: "px" })
+  })
+
+  it("types the scales in tokens.ts", () => {
+    const typescript = output("typescript")
+    expect(typescript).toMatch(/export const spacingTokens = \[[^\]]*"6"/)
+    expect(typescript).toContain("export type ColorToken")
+  })
+
+  it("emits DTCG colors with a dark-mode extension", () => {
+    const { color } = JSON.parse(output("dtcg"))
+    expect(color.primary.$value).toMatchObject({ colorSpace: "oklch", hex: expect.stringMatching(/^#[0-9a-f]{6}$/) })
+    expect(color.primary.$extensions["design-playbook"].dark.hex).toMatch(/^#[0-9a-f]{6}$/)
+  })
+})
@@ -0,0 +1,299 @@
+// Token compiler behind `ds tokens`: design-config.json → Tailwind v4 CSS,
+// a typed tokens.ts module and a W3C Design Tokens (DTCG) file.
+
+import { parsePx, type DesignSystem } from "../config"
+import { FONT_WEIGHTS, lineHeightFor, SPACING_STEP_PX, TEXT_SIZES } from "../check/tailwind"
+import { formatOklch, hexToRgb, oklchToHex, toGamut, type Oklch } from "./color"
+import { buildTheme, MODES, type ColorTheme } from "./theme"
+
+export const GENERATED_HEADER = "Generated by `ds tokens` from design-config.json. Do not edit by hand."
+
+export const DEFAULT_OUTPUTS = {
+  css: "src/globals.css",
+  typescript: "src/lib/tokens.ts",
+  dtcg: "design-tokens.json",
+  /** Directory of the DS wrapper components */
+  components: "src/components/ds",
+}
+
+export interface GeneratedFile {
+  kind: keyof typeof DEFAULT_OUTPUTS
+  path: string
+  contents: string
+}
+
+const rem = (px: number) => `${Number((px / 16).toFixed(4))}rem`
+
+function nameFor(table: Record<string, number>, value: number): string | undefined {
+  return Object.entries(table).find(([, candidate]) => candidate === value)?.[0]
+}
+
+/** Allowed font sizes keyed by their Tailwind name, e.g. `{ xs: 12, ... }` */
+export function fontSizeScale(config: Pick<DesignSystem, "compliance">): Record<string, number> {
+  const entries = config.compliance.fontSizes
+    .filter((px) => px <= config.compliance.maxFontSize)
+    .map((px) => [nameFor(TEXT_SIZES, px) ?? `${px}px`, px] as const)
+  return Object.fromEntries(entries)
+}
+
+export function fontWeightScale(config: DesignSystem): Record<string, number> {
+  return Object.fromEntries(config.compliance.fontWeights.map((weight) => [nameFor(FONT_WEIGHTS, weight) ?? String(weight), weight]))
+}
+
+/** Tailwind spacing steps on the grid, `24` → `"6"` */
+export function spacingSteps(config: DesignSystem): string[] {
+  return config.compliance.spacingScale.map((px) => String(px / SPACING_STEP_PX))
+}
+
+function fontStack(family: string): string {
+  return `"${family}", system-ui, sans-serif`
+}
+
+// ---------------------------------------------------------------------------
+// CSS
+
+function colorDeclarations(tokens: Record<string, Oklch>, indent: string): string[] {
+  return Object.entries(tokens).map(
+    ([name, color]) => `${indent}--${name}: ${formatOklch(color)}; /* ${oklchToHex(toGamut(color))} */`,
+  )
+}
+
+export function renderCss(config: DesignSystem, theme: ColorTheme): string {
+  const { design } = config
+  const family = design.typography.fontFamily
+  const radii = config.components.borderRadius
+  const fontUrl = `https://fonts.googleapis.com/css2?family=${family.replace(/ /g, "+")}:wght@${config.compliance.fontWeights.join(";")}&display=swap`
+  const lines = [
+    `/* ${GENERATED_HEADER} */`,
+    `@import url('${fontUrl}');`,
+    `@import "tailwindcss";`,
+    "",
+    "@custom-variant dark (&:is(.dark *));",
+    "",
+    ":root {",
+    ...(radii.base !== undefined ? [`  --radius: ${rem(radii.base)};`] : []),
+    ...colorDeclarations(theme.light, "  "),
+    "}",
+    "",
+    ".dark {",
+    ...colorDeclarations(theme.dark, "  "),
+    "}",
+    "",
+    "@theme inline {",
+    `  /* Font Family - ${family} Only */`,
+    `  --font-sans: ${fontStack(family)};`,
+    "",
+    "  /* Typography - only grid sizes exist */",
+    "  --text-*: initial;",
+    ...Object.entries(fontSizeScale(config)).flatMap(([name, px]) => [
+      `  --text-${name}: ${rem(px)}; /* ${px}px */`,
+      `  --text-${name}--line-height: ${rem(lineHeightFor(px))}; /* ${lineHeightFor(px)}px */`,
+    ]),
+    "",
+    "  /* Font Weights - only approved weights exist */",
+    "  --font-weight-*: initial;",
+    ...Object.entries(fontWeightScale(config)).map(([name, weight]) => `  --font-weight-${name}: ${weight};`),
+    "",
+    // Class steps stay at Tailwind's 4px, the step `ds check` and the DS
+    // components count in; the grid is enforced through the spacing scale
+    `  /* Spacing - ${SPACING_STEP_PX}px class step, ${design.spacing.baseUnit}px grid */`,
+    `  --spacing: ${rem(SPACING_STEP_PX)};`,
+    "",
+    "  /* Border Radius */",
+    ...Object.entries(radii).map(([name, px]) => `  --radius-${name}: ${rem(px)}; /* ${px}px */`),
+    "",
+    "  /* Shadows */",
+    ...Object.entries(design.components.shadows ?? {}).map(([name, value]) => `  --shadow-${name}: ${value};`),
+    "",
+    "  /* Colors - Semantic Tokens */",
+    ...Object.keys(theme.light).map((name) => `  --color-${name}: var(--${name});`),
+    "}",
+    "",
+    "@layer base {",
+    "  * {",
+    "    @apply border-border;",
+    "  }",
+    "",
+    "  body {",
+    "    @apply bg-background text-foreground font-sans;",
+    "  }",
+    "}",
+    "",
+  ]
+  return lines.join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+/** Serializes plain data as a TS literal with unquoted identifier keys */
+export function literal(value: unknown, indent = ""): string {
+  if (Array.isArray(value)) return `[${value.map((item) => literal(item, indent)).join(", ")}]`
+  if (value && typeof value === "object") {
+    const inner = `${indent}  `
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${inner}${IDENTIFIER.test(key) ? key : JSON.stringify(key)}: ${literal(item, inner)},`,
+    )
+    return `{\n${entries.join("\n")}\n${indent}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function renderTypescript(config: DesignSystem, theme: ColorTheme): string {
+  const { design, compliance } = config
+  const colors = Object.fromEntries(
+    MODES.map((mode) => [mode, Object.fromEntries(Object.entries(theme[mode]).map(([name, color]) => [name, formatOklch(color)]))]),
+  )
+  const block = (doc: string, name: string, value: unknown, type?: string) =>
+    [`/** ${doc} */`, `export const ${name} = ${literal(value)} as const`, ...(type ? [type] : []), ""].join("\n")
+
+  return [
+    `// ${GENERATED_HEADER}`,
+    "",
+    block("Font family", "fontFamily", design.typography.fontFamily),
+    block(
+      "Spacing scale in px",
+      "spacingScale",
+      compliance.spacingScale,
+      "export type SpacingPx = (typeof spacingScale)[number]",
+    ),
+    block(
+      "Tailwind spacing steps on the grid, e.g. `6` in `p-6`",
+      "spacingTokens",
+      spacingSteps(config),
+      "export type SpacingToken = (typeof spacingTokens)[number]",
+    ),
+    block("Font sizes in px, keyed by Tailwind name", "fontSizes", fontSizeScale(config), "export type FontSize = keyof typeof fontSizes"),
+    block(
+      "Font weights, keyed by Tailwind name",
+      "fontWeights",
+      fontWeightScale(config),
+      "export type FontWeight = keyof typeof fontWeights",
+    ),
+    block(
+      "Border radii in px",
+      "radii",
+      config.components.borderRadius,
+      "export type RadiusToken = keyof typeof radii",
+    ),
+    block("Box shadows", "shadows", design.components.shadows ?? {}, "export type ShadowToken = keyof typeof shadows"),
+    block(
+      "Standard component heights in px",
+      "componentHeights",
+      compliance.componentHeights,
+      [
+        "export type SizedComponent = keyof typeof componentHeights",
+        "export type ComponentHeight<C extends SizedComponent> = (typeof componentHeights)[C][number]",
+      ].join("\n"),
+    ),
+    block("Semantic colors per mode", "colors", colors, "export type ColorToken = keyof typeof colors.light"),
+  ]
+    .join("\n")
+    .replace(/\n+$/, "\n")
+}
+
+// ---------------------------------------------------------------------------
+// DTCG
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+function dtcgColor(color: Oklch) {
+  return {
+    colorSpace: "oklch",
+    components: [round(color.l, 4), round(color.c, 4), round(color.h, 2)],
+    ...(color.alpha !== undefined && color.alpha < 1 ? { alpha: round(color.alpha, 3) } : {}),
+    hex: oklchToHex(toGamut(color)).toLowerCase(),
+  }
+}
+
+const dimension = (px: number) => ({ value: px, unit: "px" })
+
+/** Splits on commas outside parentheses */
+function splitLayers(value: string): string[] {
+  const layers: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "(") depth++
+    else if (value[i] === ")") depth--
+    else if (value[i] === "," && depth === 0) {
+      layers.push(value.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  layers.push(value.slice(start).trim())
+  return layers
+}
+
+function parseShadowColor(text: string) {
+  if (text.startsWith("#")) {
+    const { rgb, alpha } = hexToRgb(text)
+    return { colorSpace: "srgb", components: rgb.map((channel) => round(channel, 4)), alpha, hex: text.toLowerCase() }
+  }
+  const match = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+))?\s*\)$/.exec(text)
+  if (!match) throw new Error(`Unsupported shadow color: ${text}`)
+  const rgb = [match[1], match[2], match[3]].map((channel) => round(Number(channel) / 255, 4))
+  return { colorSpace: "srgb", components: rgb, alpha: match[4] === undefined ? 1 : Number(match[4]) }
+}
+
+function dtcgShadow(value: string) {
+  const layers = splitLayers(value).map((layer) => {
+    const colorMatch = /(rgba?\([^)]*\)|#[0-9a-f]{3,8})$/i.exec(layer)
+    if (!colorMatch) throw new Error(`Shadow without a color: ${layer}`)
+    const lengths = layer.slice(0, colorMatch.index).trim().split(/\s+/).map((part) => parsePx(part) ?? 0)
+    const [offsetX = 0, offsetY = 0, blur = 0, spread = 0] = lengths
+    return {
+      color: parseShadowColor(colorMatch[1]),
+      offsetX: dimension(offsetX),
+      offsetY: dimension(offsetY),
+      blur: dimension(blur),
+      spread: dimension(spread),
+    }
+  })
+  return layers.length === 1 ? layers[0] : layers
+}
+
+export function renderDtcg(config: DesignSystem, theme: ColorTheme): string {
+  const { design, compliance } = config
+  const group = <T>(type: string, entries: [string, T][]) => ({
+    $type: type,
+    ...Object.fromEntries(entries.map(([name, value]) => [name, { $value: value }])),
+  })
+
+  const color: Record<string, unknown> = { $type: "color" }
+  for (const [name, light] of Object.entries(theme.light)) {
+    color[name] = {
+      $value: dtcgColor(light),
+      ...(theme.dark[name] ? { $extensions: { "design-playbook": { dark: dtcgColor(theme.dark[name]) } } } : {}),
+    }
+  }
+
+  const tokens = {
+    $description: GENERATED_HEADER,
+    color,
+    spacing: group(
+      "dimension",
+      compliance.spacingScale.map((px) => [String(px / SPACING_STEP_PX), dimension(px)]),
+    ),
+    font: {
+      family: { $type: "fontFamily", sans: { $value: [design.typography.fontFamily, "system-ui", "sans-serif"] } },
+      size: group("dimension", Object.entries(fontSizeScale(config)).map(([name, px]) => [name, dimension(px)])),
+      weight: group("fontWeight", Object.entries(fontWeightScale(config))),
+    },
+    radius: group("dimension", Object.entries(config.components.borderRadius).map(([name, px]) => [name, dimension(px)])),
+    shadow: group("shadow", Object.entries(design.components.shadows ?? {}).map(([name, value]) => [name, dtcgShadow(value)])),
+  }
+  return `${JSON.stringify(tokens, null, 2)}\n`
+}
+
+export function compileTokens(config: DesignSystem): GeneratedFile[] {
+  const theme = buildTheme(config.design)
+  const outputs = { ...DEFAULT_OUTPUTS, ...config.design.tokens }
+  return [
+    { kind: "css", path: outputs.css, contents: renderCss(config, theme) },
+    { kind: "typescript", path: outputs.typescript, contents: renderTypescript(config, theme) },
+    { kind: "dtcg", path: outputs.dtcg, contents: renderDtcg(config, theme) },
+  ]
+}
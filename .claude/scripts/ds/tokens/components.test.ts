@@ -0,0 +1,138 @@
+import { spawnSync } from "node:child_process"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import * as ts from "typescript"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { checkSource } from "../check"
+import { loadFixtureSystem, PLAYBOOK_ROOT } from "../fixtures/design-system"
+import { writeShadcnStubs } from "../fixtures/shadcn"
+import { compileTokens } from "./compile"
+import { compileComponents, parseShadcnAliases } from "./components"
+
+function component(name: string, overrides?: Record<string, unknown>): string {
+  return compileComponents(loadFixtureSystem(overrides)).find((file) => file.path.endsWith(`/${name}`))!.contents
+}
+
+describe("parseShadcnAliases", () => {
+  it("takes the ui alias, falls back to components/ui, then to shadcn's defaults", () => {
+    expect(parseShadcnAliases(JSON.stringify({ aliases: { ui: "~/ui", utils: "~/utils" } }))).toEqual({ ui: "~/ui", utils: "~/utils" })
+    expect(parseShadcnAliases(JSON.stringify({ aliases: { components: "#/components" } }))).toEqual({
+      ui: "#/components/ui",
+      utils: "@/lib/utils",
+    })
+    expect(parseShadcnAliases()).toEqual({ ui: "@/components/ui", utils: "@/lib/utils" })
+  })
+})
+
+describe("compileComponents", () => {
+  it("writes the components next to the configured token module", () => {
+    const files = compileComponents(loadFixtureSystem({ tokens: { components: "app/ds", typescript: "app/lib/tokens.ts" } }))
+    expect(files.every((file) => file.path.startsWith("app/ds/"))).toBe(true)
+    expect(files.find((file) => file.path === "app/ds/DSCard.tsx")!.contents).toContain(`from "../lib/tokens"`)
+  })
+
+  it("offers only the configured Button heights and keeps small ones touchable", () => {
+    const button = component("DSButton.tsx")
+    expect(button).toContain("export type DSButtonSize = 32 | 40 | 48 | 56")
+    expect(button).toContain(`"32": "h-8 px-4 text-sm pointer-coarse:min-h-11"`)
+    expect(button).toContain(`"48": "h-12 px-8 text-base"`)
+  })
+
+  it("follows the heights in design-config.json", () => {
+    const config = { components: { heights: { Button: [40, 48] } } }
+    expect(component("DSButton.tsx", config)).toContain("export type DSButtonSize = 40 | 48")
+  })
+
+  it("generates components that pass ds check", () => {
+    const system = loadFixtureSystem()
+    for (const file of compileComponents(system).filter((file) => file.path.endsWith(".tsx"))) {
+      expect(checkSource(file.path, file.contents, system.compliance), file.path).toEqual([])
+    }
+  })
+})
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: "ES2022",
+    module: "ESNext",
+    moduleResolution: "Bundler",
+    jsx: "react-jsx",
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [],
+    paths: { "@/*": ["./src/*"] },
+  },
+  include: ["src"],
+}
+
+const VITEST_CONFIG = `import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: { alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) } },
+  esbuild: { jsx: "automatic" },
+})
+`
+
+/** How a project uses the components; tsc fails on an unused @ts-expect-error too */
+const USAGE = `import { DSButton, DSCard, DSStack } from "./components/ds"
+
+export const onGrid = (
+  <DSStack gap="6" className="md:gap-8">
+    <DSButton size={40} className="w-full md:px-8">
+      Save
+    </DSButton>
+  </DSStack>
+)
+// @ts-expect-error h-9 is set by the size prop
+export const height = <DSButton className="h-9">Save</DSButton>
+// @ts-expect-error 13px is off the grid
+export const arbitrary = <DSCard className="p-[13px]" />
+`
+
+/** Type errors in the project at root, as "file: message" */
+function typeErrors(root: string): string[] {
+  const { options, fileNames } = ts.parseJsonConfigFileContent(TSCONFIG, ts.sys, root)
+  const program = ts.createProgram(fileNames, options)
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+    const file = diagnostic.file ? path.relative(root, diagnostic.file.fileName) : "tsconfig"
+    return `${file}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`
+  })
+}
+
+describe("generated package", () => {
+  let root: string
+
+  beforeAll(() => {
+    // A project as `ds init` leaves it, with this checkout's react and vitest
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ds-components-"))
+    const system = loadFixtureSystem()
+    for (const file of [...compileTokens(system), ...compileComponents(system)]) {
+      fs.mkdirSync(path.dirname(path.join(root, file.path)), { recursive: true })
+      fs.writeFileSync(path.join(root, file.path), file.contents)
+    }
+    writeShadcnStubs(path.join(root, "src"))
+    fs.symlinkSync(path.join(PLAYBOOK_ROOT, "node_modules"), path.join(root, "node_modules"), "dir")
+    fs.writeFileSync(path.join(root, "vitest.config.mts"), VITEST_CONFIG)
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it("type-checks against shadcn/ui and rejects off-grid classNames", () => {
+    fs.writeFileSync(path.join(root, "src/usage.tsx"), USAGE)
+    const offGrid = `import { DSButton } from "./components/ds"\n\nexport const button = <DSButton className="h-9">Save</DSButton>\n`
+    fs.writeFileSync(path.join(root, "src/off-grid.tsx"), offGrid)
+    expect(typeErrors(root)).toEqual([`src/off-grid.tsx: Type '"h-9"' is not assignable to type '"h-9 is set by the size prop"'.`])
+  }, 60_000)
+
+  it("passes its own component tests", () => {
+    const vitest = path.join(PLAYBOOK_ROOT, "node_modules/vitest/vitest.mjs")
+    const run = spawnSync(process.execPath, [vitest, "run", "--root", root], { encoding: "utf8", timeout: 120_000 })
+    expect(run.status, `${run.stdout}${run.stderr}`).toBe(0)
+    expect(run.stdout).toMatch(/Tests\s+\d+ passed/)
+  }, 150_000)
+})
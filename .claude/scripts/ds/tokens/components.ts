@@ -0,0 +1,584 @@
+// Grid-locked wrapper components behind `ds tokens`: DSButton, DSInput,
+// DSCard, DSFormField, DSStack and DSSection on top of shadcn/ui. Every size,
+// gap and padding they accept is a token from design-config.json, and their
+// className props reject off-grid overrides at compile time.
+
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parsePx, type DesignSystem } from "../config"
+import { nearest } from "../check/rules"
+import { FONT_WEIGHTS, SPACING_PREFIXES, SPACING_STEP_PX, TEXT_SIZES } from "../check/tailwind"
+import { DEFAULT_OUTPUTS, fontSizeScale, GENERATED_HEADER, literal, spacingSteps, type GeneratedFile } from "./compile"
+
+/** WCAG 2.5.5 target size; smaller controls grow to it on touch screens */
+export const TOUCH_TARGET_PX = 44
+
+/** Spacing defaults in px, snapped to the project's scale */
+const CARD_PADDING_PX = 24
+const FIELD_GAP_PX = 8
+const SECTION_GAP_PX = 24
+
+export interface Aliases {
+  ui: string
+  utils: string
+}
+
+/** Import aliases from the text of shadcn's components.json, or its defaults */
+export function parseShadcnAliases(componentsJson?: string): Aliases {
+  const aliases: Record<string, string> = componentsJson ? (JSON.parse(componentsJson).aliases ?? {}) : {}
+  return {
+    ui: aliases.ui ?? `${aliases.components ?? "@/components"}/ui`,
+    utils: aliases.utils ?? "@/lib/utils",
+  }
+}
+
+function relativeImport(fromDirectory: string, file: string): string {
+  const specifier = path.posix.relative(fromDirectory, file).replace(/\.tsx?$/, "")
+  return specifier.startsWith(".") ? specifier : `./${specifier}`
+}
+
+const step = (px: number) => String(px / SPACING_STEP_PX)
+
+const union = (values: (string | number)[]) => values.map((value) => JSON.stringify(value)).join(" | ")
+
+/** Classes for one Button height: spec pairs h-8 px-4, h-10 px-6, h-12 px-8 */
+function buttonClasses(height: number, config: DesignSystem): string {
+  const sizes = fontSizeScale(config)
+  const text = height < 48 ? "sm" : "base"
+  return [
+    `h-${step(height)}`,
+    `px-${step(nearest(height - 16, config.compliance.spacingScale))}`,
+    ...(text in sizes ? [`text-${text}`] : []),
+    ...(height < TOUCH_TARGET_PX ? [`pointer-coarse:min-h-${step(TOUCH_TARGET_PX)}`] : []),
+  ].join(" ")
+}
+
+function inputClasses(height: number): string {
+  return [`h-${step(height)}`, ...(height < TOUCH_TARGET_PX ? [`pointer-coarse:min-h-${step(TOUCH_TARGET_PX)}`] : [])].join(" ")
+}
+
+function iconClasses(height: number): string {
+  return [`w-${step(height)}`, ...(height < TOUCH_TARGET_PX ? [`pointer-coarse:min-w-${step(TOUCH_TARGET_PX)}`] : [])].join(" ")
+}
+
+/** One class per spacing token, e.g. `{ "6": "p-6" }` */
+function spacingVariant(config: DesignSystem, prefix: string): Record<string, string> {
+  return Object.fromEntries(spacingSteps(config).map((token) => [token, `${prefix}-${token}`]))
+}
+
+interface Model {
+  buttonHeights: number[]
+  defaultButton: number
+  inputHeights: number[]
+  defaultInput: number
+  cardPadding: string
+  fieldGap: string
+  stackGap: string
+  sectionGap: string
+}
+
+function model(config: DesignSystem): Model {
+  const { componentHeights, standardHeight, spacingScale } = config.compliance
+  const fallback = [standardHeight ?? 40]
+  const buttonHeights = componentHeights.Button ?? fallback
+  const inputHeights = componentHeights.Input ?? fallback
+  const pick = (heights: number[]) => (standardHeight !== undefined && heights.includes(standardHeight) ? standardHeight : heights[0])
+  const spacing = (px: number) => step(nearest(px, spacingScale))
+  return {
+    buttonHeights,
+    defaultButton: pick(buttonHeights),
+    inputHeights,
+    defaultInput: pick(inputHeights),
+    cardPadding: spacing(CARD_PADDING_PX),
+    fieldGap: spacing(FIELD_GAP_PX),
+    stackGap: spacing(parsePx(config.design.layout?.gridGap ?? "") ?? SECTION_GAP_PX),
+    sectionGap: spacing(SECTION_GAP_PX),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Files
+
+function renderGrid(tokens: string): string {
+  const weights = Object.keys(FONT_WEIGHTS)
+  const sizes = Object.keys(TEXT_SIZES)
+  return `// ${GENERATED_HEADER}
+//
+// Compile-time guard for className overrides. A literal className with an
+// off-grid utility (\`p-[13px]\`, \`gap-9\`, \`font-light\`) does not type-check;
+// dynamic strings are only known at runtime and are left to \`ds check\`.
+
+import type { FontSize, FontWeight, SpacingToken } from "${tokens}"
+
+type SpacingUtility = ${union(SPACING_PREFIXES)}
+type TextSize = ${union(sizes)}
+type Weight = ${union(weights)}
+
+/** Space-separated words of a class string */
+type Words<S extends string> = S extends \`\${infer Head} \${infer Tail}\` ? Words<Head> | Words<Tail> : S extends "" ? never : S
+
+/** \`md:hover:!-mt-2\` → \`mt-2\` */
+type Utility<C extends string> = C extends \`\${string}:\${infer Rest}\`
+  ? Utility<Rest>
+  : C extends \`!\${infer Rest}\` | \`-\${infer Rest}\` | \`\${infer Rest}!\`
+    ? Utility<Rest>
+    : C
+
+type SpacingValue<U extends string> = { [P in SpacingUtility]: U extends \`\${P}-\${infer V}\` ? V : never }[SpacingUtility]
+
+type OffScale<V extends string> = V extends \`[\${string}]\` | "px"
+  ? V
+  : V extends \`\${number}\`
+    ? V extends SpacingToken | "0"
+      ? never
+      : V
+    : never
+
+type Problem<C extends string, Locked extends string> = Utility<C> extends infer U extends string
+  ? U extends \`\${Locked}-\${string}\`
+    ? \`\${C} is set by the size prop\`
+    : [OffScale<SpacingValue<U>>] extends [never]
+      ? U extends \`text-\${TextSize | \`[\${number}\${"px" | "rem"}]\`}\`
+        ? U extends \`text-\${FontSize}\`
+          ? never
+          : \`\${C} is not on the type scale\`
+        : U extends \`font-\${Weight | \`[\${string}]\`}\`
+          ? U extends \`font-\${FontWeight}\`
+            ? never
+            : \`\${C} is not an approved font weight\`
+          : never
+      : \`\${C} is not on the spacing scale\`
+  : never
+
+type Problems<S extends string, Locked extends string> = Words<S> extends infer W extends string
+  ? W extends string
+    ? Problem<W, Locked>
+    : never
+  : never
+
+/**
+ * \`S\` when every utility in it is on the grid, otherwise the list of
+ * problems, which a literal className then fails to match. \`Locked\` names
+ * utilities a prop owns, e.g. \`"h"\` on components with a \`size\` prop.
+ */
+export type GridClassName<S extends string, Locked extends string = never> = string extends S
+  ? S
+  : [Problems<S, Locked>] extends [never]
+    ? S
+    : Problems<S, Locked>
+`
+}
+
+function renderButton(config: DesignSystem, m: Model, aliases: Aliases): string {
+  const sizes = Object.fromEntries(m.buttonHeights.map((height) => [String(height), buttonClasses(height, config)]))
+  const compound = m.buttonHeights.map(
+    (height) => `    { icon: true, size: "${height}", className: "${iconClasses(height)}" },`,
+  )
+  return `// ${GENERATED_HEADER}
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+import { Button } from "${aliases.ui}/button"
+import { cn } from "${aliases.utils}"
+import type { GridClassName } from "./grid"
+
+/** Button heights in px from design-config.json */
+export type DSButtonSize = ${union(m.buttonHeights)}
+
+/** Sizes under ${TOUCH_TARGET_PX}px keep a ${TOUCH_TARGET_PX}px touch target on touch screens */
+const buttonVariants = cva("font-semibold", {
+  variants: {
+    size: ${literal(sizes, "    ")},
+    icon: {
+      true: "px-0",
+      false: "",
+    },
+  },
+  compoundVariants: [
+${compound.join("\n")}
+  ],
+})
+
+export interface DSButtonProps<S extends string = string>
+  extends Omit<React.ComponentProps<typeof Button>, "size" | "className"> {
+  size?: DSButtonSize
+  /** Square button around a single icon; give it an aria-label */
+  icon?: boolean
+  className?: GridClassName<S, "h" | "size">
+}
+
+export function DSButton<S extends string = string>({ size = ${m.defaultButton}, icon = false, className, ...props }: DSButtonProps<S>) {
+  return <Button className={cn(buttonVariants({ size: \`\${size}\`, icon }), className)} {...props} />
+}
+`
+}
+
+function renderInput(m: Model, aliases: Aliases): string {
+  const sizes = Object.fromEntries(m.inputHeights.map((height) => [String(height), inputClasses(height)]))
+  return `// ${GENERATED_HEADER}
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+import { Input } from "${aliases.ui}/input"
+import { cn } from "${aliases.utils}"
+import type { GridClassName } from "./grid"
+
+/** Input heights in px from design-config.json */
+export type DSInputSize = ${union(m.inputHeights)}
+
+const inputVariants = cva("", {
+  variants: {
+    size: ${literal(sizes, "    ")},
+  },
+})
+
+export interface DSInputProps<S extends string = string>
+  extends Omit<React.ComponentProps<typeof Input>, "size" | "className"> {
+  size?: DSInputSize
+  className?: GridClassName<S, "h" | "size">
+}
+
+export function DSInput<S extends string = string>({ size = ${m.defaultInput}, className, ...props }: DSInputProps<S>) {
+  return <Input className={cn(inputVariants({ size: \`\${size}\` }), className)} {...props} />
+}
+`
+}
+
+function renderCard(config: DesignSystem, m: Model, aliases: Aliases, tokens: string): string {
+  return `// ${GENERATED_HEADER}
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+import { Card } from "${aliases.ui}/card"
+import { cn } from "${aliases.utils}"
+import type { SpacingToken } from "${tokens}"
+import type { GridClassName } from "./grid"
+
+const cardVariants = cva("", {
+  variants: {
+    padding: ${literal(spacingVariant(config, "p"), "    ")},
+  },
+})
+
+export interface DSCardProps<S extends string = string> extends Omit<React.ComponentProps<typeof Card>, "className"> {
+  padding?: SpacingToken
+  className?: GridClassName<S>
+}
+
+export function DSCard<S extends string = string>({ padding = "${m.cardPadding}", className, ...props }: DSCardProps<S>) {
+  return <Card className={cn(cardVariants({ padding }), className)} {...props} />
+}
+`
+}
+
+function renderFormField(config: DesignSystem, m: Model, aliases: Aliases, tokens: string): string {
+  return `// ${GENERATED_HEADER}
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+import { Label } from "${aliases.ui}/label"
+import { cn } from "${aliases.utils}"
+import type { SpacingToken } from "${tokens}"
+import type { GridClassName } from "./grid"
+
+const fieldVariants = cva("", {
+  variants: {
+    gap: ${literal(spacingVariant(config, "space-y"), "    ")},
+  },
+})
+
+export interface DSFormFieldProps<S extends string = string> extends Omit<React.ComponentProps<"div">, "className"> {
+  label: React.ReactNode
+  /** id of the control, so the label focuses it */
+  htmlFor?: string
+  description?: React.ReactNode
+  error?: React.ReactNode
+  /** Label to control spacing */
+  gap?: SpacingToken
+  className?: GridClassName<S>
+}
+
+export function DSFormField<S extends string = string>({
+  label,
+  htmlFor,
+  description,
+  error,
+  gap = "${m.fieldGap}",
+  className,
+  children,
+  ...props
+}: DSFormFieldProps<S>) {
+  return (
+    <div className={cn(fieldVariants({ gap }), className)} {...props}>
+      <Label htmlFor={htmlFor}>{label}</Label>
+      {children}
+      {description ? <p className="text-sm text-muted-foreground">{description}</p> : null}
+      {error ? (
+        <p role="alert" className="text-sm font-medium text-destructive">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  )
+}
+`
+}
+
+function renderStack(config: DesignSystem, m: Model, aliases: Aliases, tokens: string): string {
+  return `// ${GENERATED_HEADER}
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+import { cn } from "${aliases.utils}"
+import type { SpacingToken } from "${tokens}"
+import type { GridClassName } from "./grid"
+
+const stackVariants = cva("flex", {
+  variants: {
+    direction: {
+      column: "flex-col",
+      row: "flex-row flex-wrap items-center",
+    },
+    gap: ${literal(spacingVariant(config, "gap"), "    ")},
+  },
+})
+
+export interface DSStackProps<S extends string = string> extends Omit<React.HTMLAttributes<HTMLElement>, "className"> {
+  /** Rendered element; use "form" for a form's field stack */
+  as?: "div" | "form" | "ul" | "ol" | "nav"
+  direction?: "column" | "row"
+  gap?: SpacingToken
+  className?: GridClassName<S>
+}
+
+export function DSStack<S extends string = string>({
+  as: Element = "div",
+  direction = "column",
+  gap = "${m.stackGap}",
+  className,
+  ...props
+}: DSStackProps<S>) {
+  return <Element className={cn(stackVariants({ direction, gap }), className)} {...props} />
+}
+`
+}
+
+function renderSection(config: DesignSystem, m: Model, aliases: Aliases, tokens: string): string {
+  return `// ${GENERATED_HEADER}
+
+import * as React from "react"
+import { cva } from "class-variance-authority"
+import { cn } from "${aliases.utils}"
+import type { SpacingToken } from "${tokens}"
+import type { GridClassName } from "./grid"
+
+const sectionVariants = cva("", {
+  variants: {
+    padding: ${literal(spacingVariant(config, "py"), "    ")},
+    gap: ${literal(spacingVariant(config, "space-y"), "    ")},
+  },
+})
+
+export interface DSSectionProps<S extends string = string> extends Omit<React.ComponentProps<"section">, "className"> {
+  /** Vertical padding; page sections use 8, 12, 16 or 24 */
+  padding?: SpacingToken
+  /** Vertical rhythm between children */
+  gap?: SpacingToken
+  className?: GridClassName<S>
+}
+
+export function DSSection<S extends string = string>({ padding, gap = "${m.sectionGap}", className, ...props }: DSSectionProps<S>) {
+  return <section className={cn(sectionVariants({ padding, gap }), className)} {...props} />
+}
+`
+}
+
+function renderIndex(): string {
+  return `// ${GENERATED_HEADER}
+
+export { DSButton, type DSButtonProps, type DSButtonSize } from "./DSButton"
+export { DSCard, type DSCardProps } from "./DSCard"
+export { DSFormField, type DSFormFieldProps } from "./DSFormField"
+export { DSInput, type DSInputProps, type DSInputSize } from "./DSInput"
+export { DSSection, type DSSectionProps } from "./DSSection"
+export { DSStack, type DSStackProps } from "./DSStack"
+export type { GridClassName } from "./grid"
+`
+}
+
+/** First whole spacing step that is not a token, for the type-level tests */
+function offScaleStep(config: DesignSystem): string {
+  const steps = spacingSteps(config)
+  let candidate = 1
+  while (steps.includes(String(candidate))) candidate++
+  return String(candidate)
+}
+
+function renderTest(config: DesignSystem, m: Model, tokens: string): string {
+  const buttonCases = m.buttonHeights.map((height) => `    [${height}, ${literal(buttonClasses(height, config).split(" "))}],`)
+  const inputCases = m.inputHeights.map((height) => `    [${height}, ${literal(inputClasses(height).split(" "))}],`)
+  const iconCases = m.buttonHeights.map((height) => `    [${height}, ${literal(iconClasses(height).split(" "))}],`)
+  const offStep = offScaleStep(config)
+  const offWeight = Object.entries(FONT_WEIGHTS).find(([, weight]) => !config.compliance.fontWeights.includes(weight))?.[0]
+  const offSize = Object.entries(TEXT_SIZES).find(([name]) => !(name in fontSizeScale(config)))?.[0]
+  const rejected = [
+    `    // @ts-expect-error heights come from the size prop`,
+    `    classes(<DSButton className="h-${offStep}">Save</DSButton>)`,
+    `    // @ts-expect-error heights come from the size prop`,
+    `    classes(<DSInput className="md:h-${step(m.defaultInput)}" />)`,
+    `    // @ts-expect-error arbitrary values are off the grid`,
+    `    classes(<DSCard className="p-[13px]" />)`,
+    `    // @ts-expect-error ${Number(offStep) * SPACING_STEP_PX}px is not on the spacing scale`,
+    `    classes(<DSStack className="flex-wrap gap-x-${offStep}" />)`,
+    `    // @ts-expect-error ${Number(offStep) * SPACING_STEP_PX}px is not a spacing token`,
+    `    classes(<DSSection gap="${offStep}" />)`,
+    ...(offWeight
+      ? [`    // @ts-expect-error ${offWeight} is not an approved weight`, `    classes(<DSFormField label="Name" className="font-${offWeight}" />)`]
+      : []),
+    ...(offSize
+      ? [`    // @ts-expect-error text-${offSize} is not on the type scale`, `    classes(<DSCard className="text-${offSize}" />)`]
+      : []),
+  ]
+
+  return `// ${GENERATED_HEADER}
+//
+// Renders every variant and asserts the classes it ends up with. Off-grid
+// overrides must not compile, which tsc verifies through @ts-expect-error.
+
+import * as React from "react"
+import { renderToStaticMarkup } from "react-dom/server"
+import { describe, expect, it } from "vitest"
+import { spacingTokens } from "${tokens}"
+import { DSButton, DSCard, DSFormField, DSInput, DSSection, DSStack } from "."
+
+/** Classes of the outermost rendered element */
+function classes(element: React.ReactElement): string[] {
+  const match = /class="([^"]*)"/.exec(renderToStaticMarkup(element))
+  return match ? match[1].split(/\\s+/) : []
+}
+
+const only = (list: string[], pattern: RegExp) => list.filter((name) => pattern.test(name))
+
+describe("DSButton", () => {
+  it.each([
+${buttonCases.join("\n")}
+  ] as const)("size %i", (size, expected) => {
+    const result = classes(<DSButton size={size}>Save</DSButton>)
+    expect(result).toEqual(expect.arrayContaining([...expected]))
+    expect(only(result, /^h-/)).toEqual([expected[0]])
+  })
+
+  it("defaults to ${m.defaultButton}px", () => {
+    expect(only(classes(<DSButton>Save</DSButton>), /^h-/)).toEqual(["h-${step(m.defaultButton)}"])
+  })
+
+  it.each([
+${iconCases.join("\n")}
+  ] as const)("icon size %i is square", (size, expected) => {
+    const result = classes(
+      <DSButton size={size} icon aria-label="Close">
+        ×
+      </DSButton>,
+    )
+    expect(result).toEqual(expect.arrayContaining(["px-0", ...expected]))
+  })
+
+  it("keeps on-grid overrides", () => {
+    expect(classes(<DSButton className="w-full md:px-8">Save</DSButton>)).toEqual(expect.arrayContaining(["w-full", "md:px-8"]))
+  })
+})
+
+describe("DSInput", () => {
+  it.each([
+${inputCases.join("\n")}
+  ] as const)("size %i", (size, expected) => {
+    const result = classes(<DSInput size={size} aria-label="Email" />)
+    expect(result).toEqual(expect.arrayContaining([...expected]))
+    expect(only(result, /^h-/)).toEqual([expected[0]])
+  })
+})
+
+describe("DSCard", () => {
+  it("defaults to p-${m.cardPadding}", () => {
+    expect(only(classes(<DSCard />), /^p[xytrblse]?-/)).toEqual(["p-${m.cardPadding}"])
+  })
+
+  it.each(spacingTokens)("padding %s", (padding) => {
+    expect(only(classes(<DSCard padding={padding} />), /^p[xytrblse]?-/)).toEqual([\`p-\${padding}\`])
+  })
+})
+
+describe("DSFormField", () => {
+  it("spaces label and control with space-y-${m.fieldGap}", () => {
+    expect(classes(<DSFormField label="Email" htmlFor="email" />)).toContain("space-y-${m.fieldGap}")
+  })
+
+  it.each(spacingTokens)("gap %s", (gap) => {
+    expect(only(classes(<DSFormField label="Email" gap={gap} />), /^space-y-/)).toEqual([\`space-y-\${gap}\`])
+  })
+
+  it("announces errors", () => {
+    const markup = renderToStaticMarkup(<DSFormField label="Email" error="Required" />)
+    expect(markup).toContain('role="alert"')
+  })
+})
+
+describe("DSStack", () => {
+  it("stacks vertically with gap-${m.stackGap} by default", () => {
+    expect(classes(<DSStack />)).toEqual(["flex", "flex-col", "gap-${m.stackGap}"])
+  })
+
+  it.each(spacingTokens)("gap %s", (gap) => {
+    expect(only(classes(<DSStack direction="row" gap={gap} />), /^gap-/)).toEqual([\`gap-\${gap}\`])
+  })
+
+  it("renders as a form", () => {
+    expect(renderToStaticMarkup(<DSStack as="form" />)).toMatch(/^<form /)
+  })
+})
+
+describe("DSSection", () => {
+  it("has no padding unless asked", () => {
+    expect(classes(<DSSection />)).toEqual(["space-y-${m.sectionGap}"])
+  })
+
+  it.each(spacingTokens)("padding %s", (padding) => {
+    expect(only(classes(<DSSection padding={padding} />), /^py-/)).toEqual([\`py-\${padding}\`])
+  })
+})
+
+describe("className", () => {
+  it("rejects off-grid overrides at compile time", () => {
+    // Deliberately off the grid, so ds check would flag them too
+    // ds-disable
+${rejected.join("\n")}
+    // ds-enable
+  })
+})
+`
+}
+
+export function compileComponents(config: DesignSystem): GeneratedFile[] {
+  const outputs = { ...DEFAULT_OUTPUTS, ...config.design.tokens }
+  const directory = outputs.components
+  const tokens = relativeImport(directory, outputs.typescript)
+  const shadcn = path.join(config.root, "components.json")
+  const aliases = parseShadcnAliases(fs.existsSync(shadcn) ? fs.readFileSync(shadcn, "utf8") : undefined)
+  const m = model(config)
+  const file = (name: string, contents: string): GeneratedFile => ({
+    kind: "components",
+    path: path.posix.join(directory, name),
+    contents,
+  })
+  return [
+    file("grid.ts", renderGrid(tokens)),
+    file("DSButton.tsx", renderButton(config, m, aliases)),
+    file("DSInput.tsx", renderInput(m, aliases)),
+    file("DSCard.tsx", renderCard(config, m, aliases, tokens)),
+    file("DSFormField.tsx", renderFormField(config, m, aliases, tokens)),
+    file("DSStack.tsx", renderStack(config, m, aliases, tokens)),
+    file("DSSection.tsx", renderSection(config, m, aliases, tokens)),
+    file("index.ts", renderIndex()),
+    file("components.test.tsx", renderTest(config, m, tokens)),
+  ]
+}
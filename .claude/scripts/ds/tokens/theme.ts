@@ -0,0 +1,62 @@
+// Derives the light and dark semantic color themes from the brand colors.
+// Surfaces take the neutral brand hue; every brand color gets a `-foreground`
+// partner picked for contrast, and is lifted for dark mode.
+
+import type { DesignConfig, ThemeConfig } from "../config"
+import { contrastRatio, hexToOklch, oklchToRgb, toGamut, type Oklch } from "./color"
+
+export const MODES = ["light", "dark"] as const
+export type Mode = (typeof MODES)[number]
+
+/** Token name → color, in emit order */
+export type ColorTheme = Record<Mode, Record<string, Oklch>>
+
+export const DEFAULT_THEME: ThemeConfig = {
+  surfaceTint: 0.25,
+  darkBrandMinLightness: 0.7,
+  surfaces: {
+    light: { background: 0.99, foreground: 0.15, muted: 0.96, "muted-foreground": 0.5, border: 0.87, input: 0.87 },
+    dark: { background: 0.15, foreground: 0.98, muted: 0.25, "muted-foreground": 0.72, border: 0.3, input: 0.3 },
+  },
+}
+
+/** Surfaces whose text color is the mode's `foreground` */
+const CONTAINER_SURFACES = ["card", "popover"]
+
+/** Picks whichever of the mode's background or foreground reads best on `color` */
+function foregroundFor(color: Oklch, candidates: Oklch[]): Oklch {
+  const rgb = oklchToRgb(color)
+  return candidates.reduce((best, candidate) =>
+    contrastRatio(rgb, oklchToRgb(candidate)) > contrastRatio(rgb, oklchToRgb(best)) ? candidate : best,
+  )
+}
+
+export function buildTheme(design: DesignConfig): ColorTheme {
+  const config = design.branding.theme ?? DEFAULT_THEME
+  const brand = Object.fromEntries(
+    Object.entries(design.branding.brandColors).map(([name, color]) => [name, hexToOklch(color.hex)]),
+  )
+  const neutral = brand.neutral ?? { l: 0.5, c: 0, h: 0 }
+  const theme = {} as ColorTheme
+
+  for (const mode of MODES) {
+    const tokens: Record<string, Oklch> = {}
+    const surfaces = config.surfaces[mode]
+    for (const [name, lightness] of Object.entries(surfaces)) {
+      tokens[name] = { l: lightness, c: neutral.c * config.surfaceTint, h: neutral.h }
+    }
+    for (const name of CONTAINER_SURFACES) {
+      if (tokens[name] && tokens.foreground) tokens[`${name}-foreground`] = tokens.foreground
+    }
+
+    const textCandidates = [tokens.background, tokens.foreground].filter(Boolean)
+    for (const [name, base] of Object.entries(brand)) {
+      const color = mode === "dark" ? toGamut({ ...base, l: Math.max(base.l, config.darkBrandMinLightness) }) : base
+      tokens[name] = color
+      if (textCandidates.length) tokens[`${name}-foreground`] = foregroundFor(color, textCandidates)
+    }
+    if (tokens.primary) tokens.ring = tokens.primary
+    theme[mode] = tokens
+  }
+  return theme
+}
@@ -0,0 +1,31 @@
+// Shared types for the design system CLI
+
+export type Severity = "error" | "warning"
+
+export interface Violation {
+  ruleId: string
+  severity: Severity
+  message: string
+  file: string
+  line: number
+  column: number
+  /** Offending source text, e.g. a single class token */
+  source?: string
+  /** Compliant alternative, when one can be derived from the config */
+  suggestion?: string
+}
+
+export interface FileResult {
+  file: string
+  violations: Violation[]
+}
+
+export interface RuleMeta {
+  id: string
+  /** Number of the check in DESIGN-SYSTEM-SPECS.md "AUTOMATIC COMPLIANCE CHECKS" */
+  specRule: number
+  /** Heading of the spec section the rule enforces */
+  specSection: string
+  description: string
+  severity: Severity
+}
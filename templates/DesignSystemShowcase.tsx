@@ -0,0 +1,106 @@
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { DSButton, DSCard, DSFormField, DSInput, DSSection, DSStack } from "@/components/ds"
+
+export function DesignSystemShowcase() {
+  return (
+    <div className="container mx-auto p-8 space-y-8">
+      {/* Typography Showcase */}
+      <DSSection>
+        <h1 className="text-4xl font-bold text-foreground">
+          Design System Typography
+        </h1>
+        <h2 className="text-3xl font-semibold text-foreground">
+          Section Heading
+        </h2>
+        <h3 className="text-2xl font-semibold text-foreground">
+          Subsection Heading
+        </h3>
+        <p className="text-base font-normal text-foreground">
+          This is body text using Mulish font family with normal weight (400). 
+          It follows the 8-point grid system and uses semantic color tokens.
+        </p>
+        <p className="text-sm font-medium text-muted-foreground">
+          This is smaller text with medium weight for emphasis.
+        </p>
+      </DSSection>
+
+      {/* Button Showcase: heights come from the size prop */}
+      <DSSection>
+        <h2 className="text-3xl font-semibold text-foreground">
+          Button Components
+        </h2>
+        <DSStack direction="row" gap="4">
+          <DSButton>Primary Action</DSButton>
+          <DSButton variant="outline" className="font-medium">
+            Secondary Action
+          </DSButton>
+          <DSButton variant="ghost" className="font-medium">
+            Ghost Button
+          </DSButton>
+          <DSButton size={48}>Large Action</DSButton>
+        </DSStack>
+      </DSSection>
+
+      {/* Card Showcase */}
+      <DSSection>
+        <h2 className="text-3xl font-semibold text-foreground">
+          Card Components
+        </h2>
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          <DSCard>
+            <CardHeader className="space-y-2">
+              <CardTitle className="text-xl font-semibold">
+                Feature Card
+              </CardTitle>
+              <CardDescription className="text-sm font-normal">
+                This card follows the design system rules
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-base font-normal">
+                All spacing uses the 8-point grid system.
+              </p>
+              <Badge className="font-medium">
+                New Feature
+              </Badge>
+            </CardContent>
+          </DSCard>
+        </div>
+      </DSSection>
+
+      {/* Form Showcase: space-y-6 between fields, space-y-2 inside them */}
+      <DSSection>
+        <h2 className="text-3xl font-semibold text-foreground">
+          Form Components
+        </h2>
+        <DSStack as="form" gap="6" className="max-w-md">
+          <DSFormField label="Email" htmlFor="showcase-email" description="We never share your email.">
+            <DSInput id="showcase-email" type="email" />
+          </DSFormField>
+          <DSButton size={48} type="submit" className="w-full">
+            Submit
+          </DSButton>
+        </DSStack>
+      </DSSection>
+
+      {/* Spacing Showcase */}
+      <DSSection>
+        <h2 className="text-3xl font-semibold text-foreground">
+          Spacing System
+        </h2>
+        <div className="space-y-4">
+          <div className="bg-primary/10 p-4 rounded-lg">
+            <p className="font-medium">16px padding (p-4)</p>
+          </div>
+          <div className="bg-secondary/10 p-6 rounded-lg">
+            <p className="font-medium">24px padding (p-6)</p>
+          </div>
+          <div className="bg-accent/10 p-8 rounded-lg">
+            <p className="font-medium">32px padding (p-8)</p>
+          </div>
+        </div>
+      </DSSection>
+    </div>
+  )
+}